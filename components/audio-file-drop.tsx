@@ -0,0 +1,72 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import { Upload } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface AudioFileDropProps {
+  onFile: (file: File) => void | Promise<void>
+  accept: string
+  disabled?: boolean
+}
+
+export function AudioFileDrop({ onFile, accept, disabled = false }: AudioFileDropProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || disabled || isLoading) return
+    setIsLoading(true)
+    try {
+      await onFile(file)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLButtonElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    void handleFile(event.dataTransfer.files[0])
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        disabled={disabled || isLoading}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(event) => {
+          event.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "w-full flex flex-col items-center gap-2 rounded-xl border-2 border-dashed border-border p-6 text-sm text-muted-foreground transition-colors",
+          "hover:border-primary/50 hover:bg-muted/50 disabled:opacity-50 disabled:pointer-events-none",
+          isDragging && "border-primary bg-primary/10 text-foreground",
+        )}
+      >
+        <Upload className="h-6 w-6" />
+        <span className="font-medium text-foreground">
+          {isLoading ? "Loading clip..." : "Or drop an audio file here"}
+        </span>
+        <span>WAV, MP3, OGG or WebM - click to browse</span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={(event) => {
+          void handleFile(event.target.files?.[0])
+          // Reset so picking the same file again still fires a change
+          event.target.value = ""
+        }}
+      />
+    </>
+  )
+}
@@ -1,13 +1,27 @@
 "use client"
 
 import { useEffect, useRef } from "react"
+import { getColormapLut, type ColormapName } from "@/lib/audio/colormap"
+import { MIN_DISPLAY_FREQUENCY, logFrequencyBin, type VisualizerMode } from "@/lib/audio/spectrogram"
 
 interface AudioVisualizerProps {
   analyser: AnalyserNode | null
   isActive: boolean
+  mode?: VisualizerMode
+  colormap?: ColormapName
 }
 
-export function AudioVisualizer({ analyser, isActive }: AudioVisualizerProps) {
+const SPECTROGRAM_COLUMN_WIDTH = 2
+// The engine's analysers use a small FFT that suits the bars but leaves only a handful of bins for the
+// lower half of a log axis, so the spectrogram taps them with its own finer-grained analyser
+const SPECTROGRAM_FFT_SIZE = 4096
+const FREQUENCY_TICKS = [100, 1000, 10000]
+
+function formatFrequency(hz: number): string {
+  return hz >= 1000 ? `${hz / 1000}k` : `${hz}`
+}
+
+export function AudioVisualizer({ analyser, isActive, mode = "bars", colormap = "magma" }: AudioVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationRef = useRef<number | null>(null)
 
@@ -28,11 +42,47 @@ export function AudioVisualizer({ analyser, isActive }: AudioVisualizerProps) {
     resizeCanvas()
     window.addEventListener("resize", resizeCanvas)
 
+    const lut = getColormapLut(colormap)
+
+    let spectrumAnalyser: AnalyserNode | null = null
+    if (analyser && isActive && mode === "spectrogram") {
+      // Analysers pass their input straight through, so chaining one off the shared node sees the same signal
+      spectrumAnalyser = analyser.context.createAnalyser()
+      spectrumAnalyser.fftSize = SPECTROGRAM_FFT_SIZE
+      spectrumAnalyser.minDecibels = analyser.minDecibels
+      spectrumAnalyser.maxDecibels = analyser.maxDecibels
+      analyser.connect(spectrumAnalyser)
+    }
+
+    const drawSpectrogramColumn = (analyser: AnalyserNode, width: number, height: number) => {
+      const bufferLength = analyser.frequencyBinCount
+      const dataArray = new Uint8Array(bufferLength)
+      analyser.getByteFrequencyData(dataArray)
+
+      // Scroll the existing image left and paint the newest column on the right edge
+      ctx.drawImage(canvas, 0, 0, canvas.width, canvas.height, -SPECTROGRAM_COLUMN_WIDTH, 0, width, height)
+
+      const x = width - SPECTROGRAM_COLUMN_WIDTH
+      const rows = Math.ceil(height)
+      for (let row = 0; row < rows; row++) {
+        const bin = logFrequencyBin(1 - row / rows, bufferLength, analyser.context.sampleRate)
+        const value = dataArray[bin]
+        ctx.fillStyle = `rgb(${lut[value * 3]}, ${lut[value * 3 + 1]}, ${lut[value * 3 + 2]})`
+        ctx.fillRect(x, row, SPECTROGRAM_COLUMN_WIDTH, 1)
+      }
+    }
+
     const draw = () => {
       const rect = canvas.getBoundingClientRect()
       const width = rect.width
       const height = rect.height
 
+      if (spectrumAnalyser) {
+        drawSpectrogramColumn(spectrumAnalyser, width, height)
+        animationRef.current = requestAnimationFrame(draw)
+        return
+      }
+
       ctx.clearRect(0, 0, width, height)
 
       if (analyser && isActive) {
@@ -74,6 +124,12 @@ export function AudioVisualizer({ analyser, isActive }: AudioVisualizerProps) {
       animationRef.current = requestAnimationFrame(draw)
     }
 
+    if (spectrumAnalyser) {
+      const rect = canvas.getBoundingClientRect()
+      ctx.fillStyle = `rgb(${lut[0]}, ${lut[1]}, ${lut[2]})`
+      ctx.fillRect(0, 0, rect.width, rect.height)
+    }
+
     draw()
 
     return () => {
@@ -81,12 +137,35 @@ export function AudioVisualizer({ analyser, isActive }: AudioVisualizerProps) {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current)
       }
+      if (analyser && spectrumAnalyser) {
+        try {
+          analyser.disconnect(spectrumAnalyser)
+        } catch {
+          // The shared analyser may already have been torn down with its source
+        }
+      }
     }
-  }, [analyser, isActive])
+  }, [analyser, isActive, mode, colormap])
+
+  const sampleRate = analyser?.context.sampleRate ?? 44100
+  const showAxis = mode === "spectrogram" && analyser && isActive
 
   return (
-    <div className="w-full h-32 md:h-40 bg-muted/30 rounded-xl overflow-hidden">
+    <div className="relative w-full h-32 md:h-40 bg-muted/30 rounded-xl overflow-hidden">
       <canvas ref={canvasRef} className="w-full h-full" style={{ display: "block" }} />
+      {showAxis &&
+        FREQUENCY_TICKS.filter((hz) => hz < sampleRate / 2).map((hz) => {
+          const position = Math.log(hz / MIN_DISPLAY_FREQUENCY) / Math.log(sampleRate / 2 / MIN_DISPLAY_FREQUENCY)
+          return (
+            <span
+              key={hz}
+              className="absolute left-1 text-[10px] text-white/70 -translate-y-1/2 pointer-events-none"
+              style={{ top: `${(1 - position) * 100}%` }}
+            >
+              {formatFrequency(hz)}
+            </span>
+          )
+        })}
     </div>
   )
 }
@@ -0,0 +1,160 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  CAPTURE_BACKENDS,
+  CAPTURE_PRESETS,
+  CAPTURE_SAMPLE_RATES,
+  findCapturePreset,
+  type ActiveCaptureBackend,
+  type CaptureBackend,
+  type CapturePresetId,
+  type CaptureSettings,
+} from "@/lib/audio/capture"
+
+interface CaptureSettingsPanelProps {
+  capture: CaptureSettings
+  onChange: (capture: CaptureSettings) => void
+  applied: MediaTrackSettings | null
+  backend: CaptureBackend
+  onBackendChange: (backend: CaptureBackend) => void
+  // Backend that recorded the latest take, which under "auto" may be the PCM fallback
+  activeBackend: ActiveCaptureBackend | null
+  // What the open input supports; null until the microphone has been opened once
+  availableBackends: ActiveCaptureBackend[] | null
+}
+
+const TOGGLES = [
+  ["echoCancellation", "Echo cancellation"],
+  ["noiseSuppression", "Noise suppression"],
+  ["autoGainControl", "Auto gain control"],
+] as const
+
+// Radix Select doesn't allow an empty item value, so "browser default" gets a sentinel
+const AUTO_SAMPLE_RATE = "auto"
+
+function formatApplied(value: unknown): string {
+  if (value === undefined) return "n/a"
+  if (typeof value === "boolean") return value ? "on" : "off"
+  return String(value)
+}
+
+export function CaptureSettingsPanel({
+  capture,
+  onChange,
+  applied,
+  backend,
+  onBackendChange,
+  activeBackend,
+  availableBackends,
+}: CaptureSettingsPanelProps) {
+  const preset = findCapturePreset(capture)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label>Audio capture</Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={preset ?? ""}
+          onValueChange={(value) => value && onChange(CAPTURE_PRESETS[value as CapturePresetId].settings)}
+        >
+          {(Object.keys(CAPTURE_PRESETS) as CapturePresetId[]).map((id) => (
+            <ToggleGroupItem key={id} value={id} className="px-3">
+              {CAPTURE_PRESETS[id].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {preset ? CAPTURE_PRESETS[preset].description : "Custom capture settings"}
+      </p>
+      {TOGGLES.map(([key, label]) => (
+        <div key={key} className="flex items-center justify-between">
+          <Label htmlFor={key} className="font-normal">
+            {label}
+          </Label>
+          <Switch
+            id={key}
+            checked={capture[key]}
+            onCheckedChange={(checked) => onChange({ ...capture, [key]: checked })}
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="capture-sample-rate" className="font-normal">
+          Sample rate
+        </Label>
+        <Select
+          value={capture.sampleRate ? String(capture.sampleRate) : AUTO_SAMPLE_RATE}
+          onValueChange={(value) =>
+            onChange({ ...capture, sampleRate: value === AUTO_SAMPLE_RATE ? null : Number(value) })
+          }
+        >
+          <SelectTrigger id="capture-sample-rate" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO_SAMPLE_RATE}>Browser default</SelectItem>
+            {CAPTURE_SAMPLE_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {rate / 1000} kHz
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="capture-backend" className="font-normal">
+          Recorder
+        </Label>
+        <Select value={backend} onValueChange={(value) => onBackendChange(value as CaptureBackend)}>
+          <SelectTrigger id="capture-backend" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CAPTURE_BACKENDS) as CaptureBackend[]).map((id) => (
+              <SelectItem
+                key={id}
+                value={id}
+                disabled={id !== "auto" && availableBackends !== null && !availableBackends.includes(id)}
+              >
+                {CAPTURE_BACKENDS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {applied && (
+        <div className="rounded-lg bg-muted/50 p-3 text-xs text-muted-foreground space-y-1">
+          <p className="font-medium text-foreground">Applied by the browser</p>
+          {TOGGLES.map(([key, label]) => (
+            <p key={key} className="flex justify-between">
+              <span>{label}</span>
+              <span>{formatApplied(applied[key])}</span>
+            </p>
+          ))}
+          <p className="flex justify-between">
+            <span>Sample rate</span>
+            <span>{formatApplied(applied.sampleRate)}</span>
+          </p>
+          <p className="flex justify-between">
+            <span>Channels</span>
+            <span>{formatApplied(applied.channelCount)}</span>
+          </p>
+          {activeBackend && (
+            <p className="flex justify-between">
+              <span>Last take recorded with</span>
+              <span>{CAPTURE_BACKENDS[activeBackend]}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef } from "react"
+import { cn } from "@/lib/utils"
+import { getPeaks } from "@/lib/audio/peaks"
+import { getBufferPosition, type PlaybackState } from "@/lib/audio/playback"
+import type { Alignment } from "@/lib/audio/alignment"
+
+interface ComparisonViewProps {
+  original: AudioBuffer
+  imitation: AudioBuffer
+  alignment: Alignment
+  cursor: number
+  onSeek: (time: number) => void
+  audioContext?: AudioContext | null
+  playback?: PlaybackState | null
+  className?: string
+}
+
+const LANE_GAP = 6
+
+export function ComparisonView({
+  original,
+  imitation,
+  alignment,
+  cursor,
+  onSeek,
+  audioContext,
+  playback,
+  className,
+}: ComparisonViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const animationRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    const resizeCanvas = () => {
+      const rect = canvas.getBoundingClientRect()
+      canvas.width = rect.width * window.devicePixelRatio
+      canvas.height = rect.height * window.devicePixelRatio
+      ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0)
+    }
+
+    resizeCanvas()
+    window.addEventListener("resize", resizeCanvas)
+
+    const lanes = [
+      { buffer: original, start: alignment.referenceStart, hue: 320 },
+      { buffer: imitation, start: alignment.candidateStart, hue: 200 },
+    ]
+
+    const draw = () => {
+      const rect = canvas.getBoundingClientRect()
+      const width = rect.width
+      const height = rect.height
+      const laneHeight = (height - LANE_GAP) / 2
+      const toX = (time: number) => (time / alignment.duration) * width
+
+      ctx.clearRect(0, 0, width, height)
+
+      ctx.fillStyle = `oklch(0.75 0.15 150 / 0.2)`
+      for (const segment of alignment.segments) {
+        ctx.fillRect(toX(segment.start), 0, toX(segment.end) - toX(segment.start), height)
+      }
+
+      lanes.forEach((lane, index) => {
+        const peaks = getPeaks(lane.buffer)
+        const buckets = peaks.length / 2
+        const top = index * (laneHeight + LANE_GAP)
+        const mid = top + laneHeight / 2
+        const x0 = toX(lane.start)
+        const x1 = toX(lane.start + lane.buffer.duration)
+
+        ctx.fillStyle = `oklch(0.7 0.2 ${lane.hue})`
+        for (let x = Math.floor(x0); x < x1; x++) {
+          const b = Math.min(buckets - 1, Math.floor(((x - x0) / (x1 - x0)) * buckets))
+          const high = mid - peaks[b * 2 + 1] * (laneHeight / 2) * 0.9
+          const low = mid - peaks[b * 2] * (laneHeight / 2) * 0.9
+          ctx.fillRect(x, high, 1, Math.max(1, low - high))
+        }
+      })
+
+      ctx.fillStyle = `oklch(0.6 0 0 / 0.8)`
+      ctx.fillRect(toX(cursor) - 0.5, 0, 1, height)
+
+      if (playback && audioContext) {
+        lanes.forEach((lane, index) => {
+          const position = getBufferPosition(playback, lane.buffer, audioContext.currentTime)
+          if (position === null) return
+          const x = toX(lane.start + position)
+          ctx.fillStyle = `oklch(0.95 0 0)`
+          ctx.fillRect(x - 1, index * (laneHeight + LANE_GAP), 2, laneHeight)
+        })
+      }
+
+      animationRef.current = requestAnimationFrame(draw)
+    }
+
+    draw()
+
+    return () => {
+      window.removeEventListener("resize", resizeCanvas)
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current)
+      }
+    }
+  }, [original, imitation, alignment, cursor, playback, audioContext])
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    onSeek(ratio * alignment.duration)
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative w-full h-36 bg-muted/30 rounded-xl overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full cursor-pointer"
+          style={{ display: "block" }}
+          onClick={handleClick}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>Top: original · Bottom: imitation reversed</span>
+        <span className="tabular-nums">{alignment.segments.length} matching segments</span>
+      </div>
+    </div>
+  )
+}
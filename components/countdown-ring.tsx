@@ -0,0 +1,62 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { cn } from "@/lib/utils"
+
+interface CountdownRingProps {
+  startedAt: number
+  duration: number
+  children?: React.ReactNode
+  className?: string
+}
+
+const RADIUS = 44
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS
+// Last stretch of the countdown is drawn in the destructive color as a warning
+const WARNING_SECONDS = 3
+
+export function CountdownRing({ startedAt, duration, children, className }: CountdownRingProps) {
+  const [now, setNow] = useState(() => performance.now())
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function tick() {
+      setNow(performance.now())
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  const elapsed = Math.min(duration, Math.max(0, (now - startedAt) / 1000))
+  const remaining = duration - elapsed
+  const warning = remaining <= WARNING_SECONDS
+
+  return (
+    <div className={cn("relative w-28 h-28 mx-auto", className)}>
+      <svg viewBox="0 0 100 100" className="absolute inset-0 -rotate-90">
+        <circle cx="50" cy="50" r={RADIUS} fill="none" strokeWidth="6" className="stroke-muted" />
+        <circle
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="6"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (elapsed / duration)}
+          className={cn("transition-colors", warning ? "stroke-destructive" : "stroke-primary")}
+        />
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center">{children}</div>
+      <span
+        className={cn(
+          "absolute -bottom-6 left-1/2 -translate-x-1/2 text-sm font-semibold tabular-nums",
+          warning ? "text-destructive" : "text-muted-foreground",
+        )}
+      >
+        {Math.ceil(remaining)}s
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { AudioDeviceOption } from "@/hooks/use-audio-devices"
+
+interface DevicePickerProps {
+  inputs: AudioDeviceOption[]
+  outputs: AudioDeviceOption[]
+  inputId: string
+  outputId: string
+  onInputChange: (deviceId: string) => void
+  onOutputChange: (deviceId: string) => void
+  canSelectOutput: boolean
+}
+
+// Radix Select doesn't allow an empty item value, so the system default gets a sentinel
+const DEFAULT_DEVICE = "default"
+
+function DeviceSelect({
+  id,
+  label,
+  devices,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  devices: AudioDeviceOption[]
+  value: string
+  onChange: (deviceId: string) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={value || DEFAULT_DEVICE}
+        onValueChange={(next) => onChange(next === DEFAULT_DEVICE ? "" : next)}
+      >
+        <SelectTrigger id={id} size="sm" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+          {devices.map((device) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export function DevicePicker({
+  inputs,
+  outputs,
+  inputId,
+  outputId,
+  onInputChange,
+  onOutputChange,
+  canSelectOutput,
+}: DevicePickerProps) {
+  return (
+    <div className="space-y-3">
+      <DeviceSelect id="input-device" label="Microphone" devices={inputs} value={inputId} onChange={onInputChange} />
+      {canSelectOutput && (
+        <DeviceSelect
+          id="output-device"
+          label="Speakers / headphones"
+          devices={outputs}
+          value={outputId}
+          onChange={onOutputChange}
+        />
+      )}
+    </div>
+  )
+}
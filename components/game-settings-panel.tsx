@@ -0,0 +1,135 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { PlaybackRateControl } from "@/components/playback-rate-control"
+import { ChevronDown, Settings2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { MAX_RECORDING_LIMIT, MIN_RECORDING_LIMIT, type GameSettings } from "@/lib/game-settings"
+
+interface GameSettingsPanelProps {
+  settings: GameSettings
+  onChange: (settings: GameSettings) => void
+  children?: React.ReactNode
+}
+
+export function GameSettingsPanel({ settings, onChange, children }: GameSettingsPanelProps) {
+  const [open, setOpen] = useState(false)
+
+  const update = <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
+    onChange({ ...settings, [key]: value })
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-muted/30 rounded-xl text-left">
+      <CollapsibleTrigger className="w-full flex items-center justify-between p-4 text-sm font-medium">
+        <span className="flex items-center gap-2">
+          <Settings2 className="h-4 w-4 text-muted-foreground" />
+          Recording Settings
+        </span>
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-5">
+        {children}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="trim-silence">Trim silence</Label>
+            <Switch
+              id="trim-silence"
+              checked={settings.trimSilence}
+              onCheckedChange={(checked) => update("trimSilence", checked)}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Silence threshold</span>
+              <span className="tabular-nums">{settings.silenceThresholdDb} dB</span>
+            </div>
+            <Slider
+              min={-70}
+              max={-20}
+              step={1}
+              value={[settings.silenceThresholdDb]}
+              onValueChange={([value]) => update("silenceThresholdDb", value)}
+              disabled={!settings.trimSilence}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="normalize-loudness">Match loudness</Label>
+            <p className="text-xs text-muted-foreground mt-1">Evens out quiet and loud recordings, without clipping</p>
+          </div>
+          <Switch
+            id="normalize-loudness"
+            checked={settings.normalizeLoudness}
+            onCheckedChange={(checked) => update("normalizeLoudness", checked)}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="pre-roll">3-2-1 countdown</Label>
+            <p className="text-xs text-muted-foreground mt-1">Beeps before recording starts</p>
+          </div>
+          <Switch id="pre-roll" checked={settings.preRoll} onCheckedChange={(checked) => update("preRoll", checked)} />
+        </div>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="hands-free">Hands-free recording</Label>
+              <p className="text-xs text-muted-foreground mt-1">Starts when you speak, stops when you go quiet</p>
+            </div>
+            <Switch
+              id="hands-free"
+              checked={settings.handsFree}
+              onCheckedChange={(checked) => update("handsFree", checked)}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Stop after silence</span>
+              <span className="tabular-nums">{settings.trailingSilence.toFixed(1)}s</span>
+            </div>
+            <Slider
+              min={0.5}
+              max={3}
+              step={0.1}
+              value={[settings.trailingSilence]}
+              onValueChange={([value]) => update("trailingSilence", value)}
+              disabled={!settings.handsFree}
+            />
+          </div>
+        </div>
+        <PlaybackRateControl
+          rate={settings.reversedPlaybackRate}
+          onChange={(rate) => update("reversedPlaybackRate", rate)}
+        />
+        {(
+          [
+            ["maxOriginalDuration", "Original time limit"],
+            ["maxImitationDuration", "Imitation time limit"],
+          ] as const
+        ).map(([key, label]) => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{label}</span>
+              <span className="tabular-nums">{settings[key]}s</span>
+            </div>
+            <Slider
+              min={MIN_RECORDING_LIMIT}
+              max={MAX_RECORDING_LIMIT}
+              step={1}
+              value={[settings[key]]}
+              onValueChange={([value]) => update(key, value)}
+            />
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { AlertTriangle } from "lucide-react"
+import { CLIP_LEVEL, measureLevels } from "@/lib/audio/loudness"
+import { amplitudeToDb } from "@/lib/audio/silence"
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null
+  isActive: boolean
+}
+
+const FLOOR_DB = -60
+const CLIP_DB = amplitudeToDb(CLIP_LEVEL)
+const QUIET_DB = -45
+// Warnings stay up this long so a single loud syllable is actually noticed
+const CLIP_HOLD_MS = 1500
+// Only complain about low levels once the speaker has been quiet for a while
+const QUIET_AFTER_MS = 2000
+const PEAK_HOLD_DECAY_DB = 0.5
+
+const toPercent = (db: number) => Math.min(100, Math.max(0, ((db - FLOOR_DB) / -FLOOR_DB) * 100))
+
+export function LevelMeter({ analyser, isActive }: LevelMeterProps) {
+  const [levels, setLevels] = useState({ rmsDb: FLOOR_DB, peakDb: FLOOR_DB, holdDb: FLOOR_DB })
+  const [isClipping, setIsClipping] = useState(false)
+  const [isTooQuiet, setIsTooQuiet] = useState(false)
+  const lastClipRef = useRef(0)
+  const lastLoudRef = useRef(0)
+
+  useEffect(() => {
+    if (!analyser || !isActive) return
+
+    const samples = new Float32Array(analyser.fftSize)
+    let holdDb = FLOOR_DB
+    let frame = 0
+    lastLoudRef.current = performance.now()
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples)
+      const { peakDb, rmsDb } = measureLevels(samples)
+      const now = performance.now()
+
+      holdDb = Math.max(peakDb, holdDb - PEAK_HOLD_DECAY_DB)
+      if (peakDb >= CLIP_DB) lastClipRef.current = now
+      if (rmsDb >= QUIET_DB) lastLoudRef.current = now
+
+      setLevels({ rmsDb, peakDb, holdDb })
+      setIsClipping(now - lastClipRef.current < CLIP_HOLD_MS)
+      setIsTooQuiet(now - lastLoudRef.current > QUIET_AFTER_MS)
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+
+    return () => cancelAnimationFrame(frame)
+  }, [analyser, isActive])
+
+  if (!analyser || !isActive) {
+    return null
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="relative h-2.5 w-full bg-muted rounded-full overflow-hidden">
+        <div
+          className={cn(
+            "absolute inset-y-0 left-0 rounded-full",
+            isClipping ? "bg-destructive" : levels.rmsDb >= -12 ? "bg-yellow-500" : "bg-green-500",
+          )}
+          style={{ width: `${toPercent(levels.rmsDb)}%` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-foreground/70" style={{ left: `${toPercent(levels.holdDb)}%` }} />
+      </div>
+      <div className="h-4 text-xs">
+        {isClipping ? (
+          <p className="text-destructive flex items-center justify-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Too loud - back off from the mic
+          </p>
+        ) : isTooQuiet ? (
+          <p className="text-yellow-600 dark:text-yellow-400 flex items-center justify-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Too quiet - speak up or move closer
+          </p>
+        ) : null}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useMemo } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Music } from "lucide-react"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { cn } from "@/lib/utils"
+import { pitchAt, type PitchContour } from "@/lib/audio/pitch"
+import type { Alignment } from "@/lib/audio/alignment"
+
+interface PitchContourChartProps {
+  original: PitchContour
+  imitation: PitchContour
+  alignment: Alignment
+  melodyScore: number | null
+  className?: string
+}
+
+const chartConfig = {
+  original: { label: "Original", color: "var(--chart-1)" },
+  imitation: { label: "Imitation", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+interface PitchPoint {
+  time: number
+  original: number | null
+  imitation: number | null
+}
+
+// Samples both contours onto the shared, aligned time axis; unvoiced frames become gaps in the lines
+function buildPoints(original: PitchContour, imitation: PitchContour, alignment: Alignment): PitchPoint[] {
+  const step = original.hopDuration
+  const points: PitchPoint[] = []
+  for (let time = 0; time <= alignment.duration; time += step) {
+    const originalPitch = pitchAt(original, time - alignment.referenceStart)
+    const imitationPitch = pitchAt(imitation, time - alignment.candidateStart)
+    points.push({
+      time: Math.round(time * 100) / 100,
+      original: originalPitch > 0 ? Math.round(originalPitch) : null,
+      imitation: imitationPitch > 0 ? Math.round(imitationPitch) : null,
+    })
+  }
+  return points
+}
+
+export function PitchContourChart({ original, imitation, alignment, melodyScore, className }: PitchContourChartProps) {
+  const points = useMemo(() => buildPoints(original, imitation, alignment), [original, imitation, alignment])
+
+  return (
+    <div className={cn("bg-muted/50 rounded-xl p-4 text-left", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium flex items-center gap-2">
+          <Music className="h-4 w-4 text-primary" />
+          Melody Match
+        </span>
+        <span className="text-2xl font-bold text-primary tabular-nums">{melodyScore ?? "–"}</span>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <LineChart data={points} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[0, "dataMax"]}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(value: number) => `${value.toFixed(1)}s`}
+          />
+          <YAxis
+            scale="log"
+            domain={["auto", "auto"]}
+            allowDataOverflow
+            width={44}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(value: number) => `${Math.round(value)}`}
+          />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.time ?? 0}s`} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line
+            dataKey="original"
+            stroke="var(--color-original)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            dataKey="imitation"
+            stroke="var(--color-imitation)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground mt-2">
+        {melodyScore === null
+          ? "Not enough voiced sound to compare intonation"
+          : "Pitch in Hz over time — how closely the rise and fall of the imitation follows the original"}
+      </p>
+    </div>
+  )
+}
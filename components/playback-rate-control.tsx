@@ -0,0 +1,51 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Slider } from "@/components/ui/slider"
+import { Gauge } from "lucide-react"
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from "@/lib/audio/time-stretch"
+
+interface PlaybackRateControlProps {
+  rate: number
+  onChange: (rate: number) => void
+  disabled?: boolean
+}
+
+function getDifficultyLabel(rate: number): string {
+  if (rate <= 0.7) return "Easy"
+  if (rate < 1) return "Relaxed"
+  if (rate === 1) return "Normal"
+  if (rate <= 1.25) return "Hard"
+  return "Expert"
+}
+
+export function PlaybackRateControl({ rate, onChange, disabled = false }: PlaybackRateControlProps) {
+  const [draft, setDraft] = useState(rate)
+
+  useEffect(() => {
+    setDraft(rate)
+  }, [rate])
+
+  return (
+    <div className="space-y-2 text-left">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <Gauge className="h-3 w-3" />
+          Reversed playback speed
+        </span>
+        <span className="tabular-nums">
+          {draft.toFixed(2)}x · {getDifficultyLabel(draft)}
+        </span>
+      </div>
+      <Slider
+        min={MIN_PLAYBACK_RATE}
+        max={MAX_PLAYBACK_RATE}
+        step={0.05}
+        value={[draft]}
+        onValueChange={([value]) => setDraft(value)}
+        onValueCommit={([value]) => onChange(value)}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
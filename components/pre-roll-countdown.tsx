@@ -0,0 +1,19 @@
+"use client"
+
+interface PreRollCountdownProps {
+  count: number
+}
+
+export function PreRollCountdown({ count }: PreRollCountdownProps) {
+  return (
+    <div className="mt-8 flex flex-col items-center gap-2">
+      <div
+        key={count}
+        className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center animate-in zoom-in-50 duration-300"
+      >
+        <span className="text-4xl font-bold text-primary tabular-nums">{count}</span>
+      </div>
+      <p className="text-sm text-muted-foreground">Get ready...</p>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Download, Film } from "lucide-react"
+import { audioBufferToWavBlob } from "@/lib/audio/wav"
+import { downloadBlob } from "@/lib/download"
+
+export interface DownloadableRecording {
+  id: string
+  label: string
+  buffer: AudioBuffer | null
+}
+
+interface RecordingDownloadsProps {
+  recordings: DownloadableRecording[]
+  filenamePrefix: string
+  renderReel?: () => Promise<AudioBuffer>
+}
+
+export function RecordingDownloads({ recordings, filenamePrefix, renderReel }: RecordingDownloadsProps) {
+  const [isRenderingReel, setIsRenderingReel] = useState(false)
+  const [reelError, setReelError] = useState<string | null>(null)
+
+  const downloadReel = async () => {
+    if (!renderReel) return
+    setIsRenderingReel(true)
+    setReelError(null)
+    try {
+      const reel = await renderReel()
+      downloadBlob(audioBufferToWavBlob(reel), `${filenamePrefix}-reveal-reel.wav`)
+    } catch (error) {
+      console.error("Error rendering reveal reel:", error)
+      setReelError("Could not render the reveal reel. Please try again.")
+    } finally {
+      setIsRenderingReel(false)
+    }
+  }
+
+  const available = recordings.filter((recording) => recording.buffer)
+  if (available.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-muted/30 rounded-xl p-4 space-y-3 text-left">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <Download className="h-4 w-4 text-primary" />
+        Keep the clips
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {available.map((recording) => (
+          <Button
+            key={recording.id}
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              recording.buffer &&
+              downloadBlob(audioBufferToWavBlob(recording.buffer), `${filenamePrefix}-${recording.id}.wav`)
+            }
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {recording.label}
+          </Button>
+        ))}
+      </div>
+      {renderReel && available.length === recordings.length && (
+        <Button size="sm" className="w-full" onClick={downloadReel} disabled={isRenderingReel}>
+          <Film className="mr-2 h-4 w-4" />
+          {isRenderingReel ? "Rendering..." : "Download Reveal Reel"}
+        </Button>
+      )}
+      {reelError && <p className="text-xs text-destructive">{reelError}</p>}
+    </div>
+  )
+}
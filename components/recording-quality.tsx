@@ -0,0 +1,44 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Mic } from "lucide-react"
+import type { RecordingQualityReport } from "@/lib/audio/loudness"
+
+interface RecordingQualityProps {
+  quality: RecordingQualityReport
+  onReRecord: () => void
+}
+
+const VERDICT_COPY = {
+  clipped: {
+    title: "Recording is distorted",
+    description: "The mic was overloaded, so parts of the clip are clipped. Try again a little further from the mic.",
+  },
+  "too-quiet": {
+    title: "Recording is very quiet",
+    description: "It may be hard to hear. Try again closer to the mic or a bit louder.",
+  },
+}
+
+export function RecordingQuality({ quality, onReRecord }: RecordingQualityProps) {
+  if (quality.verdict === "good") {
+    return null
+  }
+
+  const copy = VERDICT_COPY[quality.verdict]
+
+  return (
+    <Alert className="text-left">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{copy.title}</AlertTitle>
+      <AlertDescription>
+        <p>{copy.description}</p>
+        <Button size="sm" variant="outline" onClick={onReRecord} className="mt-2">
+          <Mic className="mr-2 h-4 w-4" />
+          Re-record
+        </Button>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Rewind } from "lucide-react"
+import { REVERSAL_MODE_IDS, REVERSAL_STRATEGIES, type ReversalModeId } from "@/lib/audio/reversal"
+
+interface ReversalModePickerProps {
+  value: ReversalModeId
+  onChange: (mode: ReversalModeId) => void
+}
+
+export function ReversalModePicker({ value, onChange }: ReversalModePickerProps) {
+  return (
+    <div className="bg-muted/50 rounded-xl p-4 space-y-3 text-left">
+      <Label className="flex items-center gap-2">
+        <Rewind className="h-4 w-4 text-primary" />
+        Reversal mode
+      </Label>
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={value}
+        onValueChange={(next) => next && onChange(next as ReversalModeId)}
+        className="w-full flex-wrap"
+      >
+        {REVERSAL_MODE_IDS.map((id) => (
+          <ToggleGroupItem key={id} value={id} className="px-3">
+            {REVERSAL_STRATEGIES[id].label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-xs text-muted-foreground">{REVERSAL_STRATEGIES[value].description}</p>
+    </div>
+  )
+}
+
+export function ReversalModeBadge({ mode }: { mode: ReversalModeId }) {
+  return (
+    <Badge variant="outline" className="gap-1">
+      <Rewind className="h-3 w-3" />
+      {REVERSAL_STRATEGIES[mode].label}
+    </Badge>
+  )
+}
@@ -2,13 +2,49 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback, useEffect } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { AudioVisualizer } from "@/components/audio-visualizer"
 import { GamePhaseIndicator } from "@/components/game-phase-indicator"
+import { SimilarityScore } from "@/components/similarity-score"
+import { GameSettingsPanel } from "@/components/game-settings-panel"
+import { TrimSummary } from "@/components/trim-summary"
+import { PlaybackRateControl } from "@/components/playback-rate-control"
+import { Waveform } from "@/components/waveform"
+import { Spectrogram } from "@/components/spectrogram"
+import { VisualizerControls } from "@/components/visualizer-controls"
+import { ComparisonView } from "@/components/comparison-view"
+import { SplitEarControl } from "@/components/split-ear-control"
+import { RecordingDownloads } from "@/components/recording-downloads"
+import { CountdownRing } from "@/components/countdown-ring"
+import { PreRollCountdown } from "@/components/pre-roll-countdown"
+import { LevelMeter } from "@/components/level-meter"
+import { RecordingQuality } from "@/components/recording-quality"
+import { DevicePicker } from "@/components/device-picker"
+import { CaptureSettingsPanel } from "@/components/capture-settings-panel"
+import { AudioFileDrop } from "@/components/audio-file-drop"
+import { VoiceModifierBadge, VoiceModifierPicker } from "@/components/voice-modifier-picker"
+import { ReversalModeBadge, ReversalModePicker } from "@/components/reversal-mode-picker"
+import { RoundHistory, type RoundSummary } from "@/components/round-history"
+import { PitchContourChart } from "@/components/pitch-contour-chart"
+import { useAudioDevices } from "@/hooks/use-audio-devices"
+import { useAudioEngine } from "@/hooks/use-audio-engine"
+import { useAudioProcessor } from "@/hooks/use-audio-processor"
+import { copyChannels, createAudioBuffer, sliceAudioBuffer, toMono } from "@/lib/audio/buffer"
+import type { RecordingQualityReport } from "@/lib/audio/loudness"
+import type { TrimRegion } from "@/lib/audio/silence"
+import type { PlaybackRegion } from "@/lib/audio/playback"
+import type { Alignment } from "@/lib/audio/alignment"
+import { renderMontage } from "@/lib/audio/montage"
+import { renderVoiceModifier, type VoiceModifierId } from "@/lib/audio/effects"
+import type { PitchContour } from "@/lib/audio/pitch"
+import { createVoiceActivityDetector, type VoiceActivityDetector } from "@/lib/audio/vad"
+import { buildAudioConstraints } from "@/lib/audio/capture"
+import { WebAudioEngine, type PlayOptions } from "@/lib/audio/engine"
+import { DEFAULT_GAME_SETTINGS, type GameSettings } from "@/lib/game-settings"
 import {
   Mic,
   Play,
@@ -23,6 +59,8 @@ import {
   ArrowLeft,
   ThumbsUp,
   ThumbsDown,
+  Repeat,
+  Square,
 } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 
@@ -48,16 +86,71 @@ interface PlayerState {
 
 const MAX_LIVES = 3
 const MAX_REVERSE_PLAYS = 2
+const PRE_ROLL_SECONDS = 3
+const PRE_ROLL_BEEP_DURATION = 0.12
+// Gap between the end of the "go" beep and the start of capture, so the beep's tail isn't recorded
+const PRE_ROLL_CLEARANCE = 0.06
+// Hands-free takes keep this much audio before the detected start of speech, so soft onsets survive
+const HANDS_FREE_LEAD_IN = 0.25
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+const UPLOAD_EXTENSIONS = [".wav", ".mp3", ".ogg", ".oga", ".webm"]
+const UPLOAD_MIME_TYPES = [
+  "audio/wav",
+  "audio/x-wav",
+  "audio/wave",
+  "audio/mpeg",
+  "audio/mp3",
+  "audio/ogg",
+  "audio/webm",
+]
+const UPLOAD_ACCEPT = [...UPLOAD_MIME_TYPES, ...UPLOAD_EXTENSIONS].join(",")
+
+function isSupportedAudioFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  // Some platforms leave the MIME type empty, so the extension is checked too
+  return (
+    UPLOAD_MIME_TYPES.includes(file.type.split(";")[0]) ||
+    UPLOAD_EXTENSIONS.some((extension) => name.endsWith(extension))
+  )
+}
+
+// Looping a region no longer than this fraction of the clip is practice; longer loops cost a full play
+const PRACTICE_REGION_FRACTION = 0.5
+// Practice loops draw on an allowance of their own, so short regions can't add up to unlimited listening
+const MAX_PRACTICE_LOOPS = 3
+// Each syllable chunk has its own small allowance, so a clip can be worked through chunk by chunk
+const MAX_CHUNK_PLAYS = 2
+// Every loop stops after this many passes, so one charge never buys unlimited listening
+const LOOP_REPEATS = 3
+
+function isPracticeRegion(region: PlaybackRegion, duration: number): boolean {
+  return region.end - region.start <= duration * PRACTICE_REGION_FRACTION
+}
+
+// Nothing can be replayed once the full plays are used up, practice loops included
+function canPlayRegion(region: PlaybackRegion, duration: number, playCount: number, practiceCount: number): boolean {
+  if (playCount >= MAX_REVERSE_PLAYS) return false
+  return !isPracticeRegion(region, duration) || practiceCount < MAX_PRACTICE_LOOPS
+}
+
+interface PitchAnalysis {
+  original: PitchContour
+  imitation: PitchContour
+  melodyScore: number | null
+}
+
+interface PreparedClip {
+  buffer: AudioBuffer
+  region: TrimRegion | null
+  quality: RecordingQualityReport
+}
 
 export function ReverseAudioGame() {
   const [phase, setPhase] = useState<GamePhase>("setup")
-  const [isRecording, setIsRecording] = useState(false)
-  const [isPlaying, setIsPlaying] = useState(false)
   const [originalAudio, setOriginalAudio] = useState<AudioBuffer | null>(null)
   const [reversedAudio, setReversedAudio] = useState<AudioBuffer | null>(null)
   const [imitationAudio, setImitationAudio] = useState<AudioBuffer | null>(null)
   const [reversedImitationAudio, setReversedImitationAudio] = useState<AudioBuffer | null>(null)
-  const [analyserNode, setAnalyserNode] = useState<AnalyserNode | null>(null)
   const [micPermission, setMicPermission] = useState<MicPermissionState>("prompt")
   const [permissionError, setPermissionError] = useState<string | null>(null)
 
@@ -67,12 +160,49 @@ export function ReverseAudioGame() {
   const [voteResult, setVoteResult] = useState<boolean | null>(null)
   const [roundCount, setRoundCount] = useState(1)
   const [reversedPlayCount, setReversedPlayCount] = useState(0)
-
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const chunksRef = useRef<Blob[]>([])
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null)
-  const streamRef = useRef<MediaStream | null>(null)
+  const [practiceLoopCount, setPracticeLoopCount] = useState(0)
+  // Plays per syllable chunk, keyed by how many syllable markers precede it so a rate change keeps the count
+  const [chunkPlayCounts, setChunkPlayCounts] = useState<Record<number, number>>({})
+  const [similarityScore, setSimilarityScore] = useState<number | null>(null)
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS)
+  const [originalTrim, setOriginalTrim] = useState<TrimRegion | null>(null)
+  const [imitationTrim, setImitationTrim] = useState<TrimRegion | null>(null)
+  const [reversedSelection, setReversedSelection] = useState<PlaybackRegion | null>(null)
+  const [alignment, setAlignment] = useState<Alignment | null>(null)
+  const [pitchAnalysis, setPitchAnalysis] = useState<PitchAnalysis | null>(null)
+  const [comparisonCursor, setComparisonCursor] = useState(0)
+  const [splitEarBalance, setSplitEarBalance] = useState(0.5)
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null)
+  const [preRollCount, setPreRollCount] = useState<number | null>(null)
+  const [isListening, setIsListening] = useState(false)
+  const [originalQuality, setOriginalQuality] = useState<RecordingQualityReport | null>(null)
+  const [imitationQuality, setImitationQuality] = useState<RecordingQualityReport | null>(null)
+  const [appliedTrackSettings, setAppliedTrackSettings] = useState<MediaTrackSettings | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [reversedPlaybackAudio, setReversedPlaybackAudio] = useState<AudioBuffer | null>(null)
+  const [playbackRateError, setPlaybackRateError] = useState<string | null>(null)
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null)
+  const [roundModifier, setRoundModifier] = useState<VoiceModifierId>("none")
+  const [modifiedReversedAudio, setModifiedReversedAudio] = useState<AudioBuffer | null>(null)
+  const [roundHistory, setRoundHistory] = useState<RoundSummary[]>([])
+  const [syllableOnsets, setSyllableOnsets] = useState<number[]>([])
+
+  const audioDevices = useAudioDevices()
+  const processor = useAudioProcessor()
+  const {
+    engine,
+    isRecording,
+    isPlaying,
+    analyser: analyserNode,
+    playback,
+    captureBackend,
+    availableBackends,
+  } = useAudioEngine(() => new WebAudioEngine(processor))
+
+  const preRollTimersRef = useRef<ReturnType<typeof setTimeout>[]>([])
+  // Context time at which hands-free listening heard speech begin; the take is trimmed back to it
+  const speechStartRef = useRef<number | null>(null)
+  const vadRef = useRef<VoiceActivityDetector | null>(null)
 
   useEffect(() => {
     const checkMicrophoneSupport = async () => {
@@ -104,45 +234,302 @@ export function ReverseAudioGame() {
     checkMicrophoneSupport()
   }, [])
 
-  const getAudioContext = useCallback(() => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new AudioContext()
+  useEffect(() => {
+    setSimilarityScore(null)
+    setAlignment(null)
+    setPitchAnalysis(null)
+    setComparisonCursor(0)
+    setAnalysisProgress(null)
+    if (!originalAudio || !reversedImitationAudio) return
+
+    let cancelled = false
+    // Copies, since the arrays are handed over to the worker
+    const input = {
+      reference: toMono(originalAudio).slice(),
+      candidate: toMono(reversedImitationAudio).slice(),
+      sampleRate: originalAudio.sampleRate,
     }
-    if (audioContextRef.current.state === "suspended") {
-      audioContextRef.current.resume()
+    setAnalysisProgress(0)
+    processor
+      .run("analyze", input, { onProgress: (progress) => !cancelled && setAnalysisProgress(progress) })
+      .then(({ similarity, alignment, pitch, melodyScore }) => {
+        if (cancelled) return
+        setSimilarityScore(similarity.score)
+        setAlignment(alignment)
+        setPitchAnalysis({ original: pitch.reference, imitation: pitch.candidate, melodyScore })
+        setAnalysisProgress(null)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        console.error("Error analyzing recordings:", error)
+        setAnalysisProgress(null)
+      })
+
+    return () => {
+      cancelled = true
     }
-    return audioContextRef.current
-  }, [])
+  }, [processor, originalAudio, reversedImitationAudio])
+
+  useEffect(() => {
+    // Device labels only become available once the mic permission has been granted
+    if (micPermission === "granted") {
+      audioDevices.refresh()
+    }
+  }, [micPermission, audioDevices.refresh])
 
-  const reverseAudioBuffer = useCallback(
-    (buffer: AudioBuffer): AudioBuffer => {
-      const audioContext = getAudioContext()
-      const reversedBuffer = audioContext.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate)
+  useEffect(() => {
+    engine.setOutputDevice(audioDevices.outputId)
+  }, [engine, audioDevices.outputId])
 
-      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
-        const inputData = buffer.getChannelData(channel)
-        const outputData = reversedBuffer.getChannelData(channel)
-        for (let i = 0; i < buffer.length; i++) {
-          outputData[i] = inputData[buffer.length - 1 - i]
+  useEffect(() => {
+    return engine.on("error", (error) => {
+      console.error("Audio engine error:", error)
+      setPermissionError(error.message)
+    })
+  }, [engine])
+
+  // Drops everything before `seconds` into the take; used to cut the listening stage off hands-free takes
+  const trimLeadIn = useCallback(
+    (buffer: AudioBuffer, seconds: number): AudioBuffer => {
+      const start = Math.min(buffer.length - 1, Math.round(seconds * buffer.sampleRate))
+      return start > 0 ? sliceAudioBuffer(engine.getContext(), buffer, start, buffer.length) : buffer
+    },
+    [engine],
+  )
+
+  useEffect(() => {
+    if (!reversedAudio || roundModifier === "none") {
+      setModifiedReversedAudio(reversedAudio)
+      return
+    }
+
+    let cancelled = false
+    setModifiedReversedAudio(null)
+    const stretch = (channels: Float32Array[], sampleRate: number, rate: number) =>
+      processor.run("time-stretch", { channels, sampleRate, rate }).then((output) => output.channels)
+    renderVoiceModifier(reversedAudio, roundModifier, stretch)
+      .then((rendered) => !cancelled && setModifiedReversedAudio(rendered))
+      .catch((error) => {
+        console.error("Error applying voice modifier:", error)
+        // Fall back to the plain reversal rather than leaving the imitator with nothing to hear
+        if (!cancelled) setModifiedReversedAudio(reversedAudio)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [reversedAudio, roundModifier, processor])
+
+  useEffect(() => {
+    const source = modifiedReversedAudio
+    if (!source) setPlaybackRateError(null)
+    if (!source || settings.reversedPlaybackRate === 1) {
+      setReversedPlaybackAudio(source)
+      return
+    }
+
+    let cancelled = false
+    // Until the stretched copy is ready there is nothing to play at the chosen rate
+    setReversedPlaybackAudio(null)
+    setPlaybackRateError(null)
+    const input = {
+      channels: copyChannels(source),
+      sampleRate: source.sampleRate,
+      rate: settings.reversedPlaybackRate,
+    }
+    processor
+      .run("time-stretch", input)
+      .then(({ channels }) => {
+        if (!cancelled) {
+          setReversedPlaybackAudio(createAudioBuffer(engine.getContext(), channels, source.sampleRate))
         }
+      })
+      .catch((error) => {
+        console.error("Error time-stretching audio:", error)
+        if (cancelled) return
+        // Fall back to normal speed rather than leaving nothing to play
+        setReversedPlaybackAudio(source)
+        setSettings((current) => ({ ...current, reversedPlaybackRate: 1 }))
+        const reason = error instanceof Error ? error.message : String(error)
+        setPlaybackRateError(`Couldn't change the playback speed (${reason}). Playing at normal speed instead.`)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [modifiedReversedAudio, settings.reversedPlaybackRate, processor, engine])
+
+  useEffect(() => {
+    setReversedSelection(null)
+  }, [reversedPlaybackAudio])
+
+  useEffect(() => {
+    setSyllableOnsets([])
+    if (!reversedAudio) return
+
+    let cancelled = false
+    processor
+      .run("onsets", { samples: toMono(reversedAudio).slice(), sampleRate: reversedAudio.sampleRate })
+      .then(({ onsets }) => !cancelled && setSyllableOnsets(onsets))
+      .catch((error) => console.error("Error detecting syllables:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [reversedAudio, processor])
+
+  // Syllable onsets come from the plain reversed clip, then get mapped onto the stretched playback timeline
+  const reversedOnsets = useMemo(
+    () => syllableOnsets.map((time) => time / settings.reversedPlaybackRate),
+    [syllableOnsets, settings.reversedPlaybackRate],
+  )
+
+  const cancelPreRoll = useCallback(() => {
+    preRollTimersRef.current.forEach(clearTimeout)
+    preRollTimersRef.current = []
+    setPreRollCount(null)
+  }, [])
+
+  // Counts down with a beep each second, then a higher beep; onDone fires once that beep has died away
+  const runPreRoll = useCallback(
+    (onDone: () => void) => {
+      cancelPreRoll()
+      setPreRollCount(PRE_ROLL_SECONDS)
+      for (let step = 0; step <= PRE_ROLL_SECONDS; step++) {
+        const timer = setTimeout(() => {
+          const isLast = step === PRE_ROLL_SECONDS
+          engine.beep(isLast ? 1320 : 660, PRE_ROLL_BEEP_DURATION)
+          if (isLast) {
+            setPreRollCount(null)
+            const start = setTimeout(
+              () => {
+                preRollTimersRef.current = []
+                onDone()
+              },
+              (PRE_ROLL_BEEP_DURATION + PRE_ROLL_CLEARANCE) * 1000,
+            )
+            preRollTimersRef.current.push(start)
+          } else {
+            setPreRollCount(PRE_ROLL_SECONDS - step)
+          }
+        }, step * 1000)
+        preRollTimersRef.current.push(timer)
+      }
+    },
+    [engine, cancelPreRoll],
+  )
+
+  // Shared pipeline for every decoded clip, recorded or uploaded: mono downmix, quality check, trim, normalize.
+  // Each step loops over every sample, so they all run on the processing worker.
+  const prepareClip = useCallback(
+    async (decodedBuffer: AudioBuffer): Promise<PreparedClip> => {
+      const { sampleRate } = decodedBuffer
+      const { samples: mono, quality } = await processor.run("mixdown", {
+        channels: copyChannels(decodedBuffer),
+        sampleRate,
+      })
+      const trimmed = settings.trimSilence
+        ? await processor.run("trim", { samples: mono, sampleRate, thresholdDb: settings.silenceThresholdDb })
+        : { samples: mono, region: null }
+      const { samples } = settings.normalizeLoudness
+        ? await processor.run("normalize", { samples: trimmed.samples, sampleRate })
+        : trimmed
+      return { buffer: createAudioBuffer(engine.getContext(), [samples], sampleRate), region: trimmed.region, quality }
+    },
+    [engine, processor, settings.trimSilence, settings.silenceThresholdDb, settings.normalizeLoudness],
+  )
+
+  const commitClip = useCallback(
+    async ({ buffer, region, quality }: PreparedClip, forImitation: boolean) => {
+      // The imitation is turned back around with the inverse of the round's mode, so it lines up with the original
+      const reversed = await engine.reverse(buffer, { mode: settings.reversalMode, inverse: forImitation })
+      if (forImitation) {
+        setImitationQuality(quality)
+        setImitationTrim(region)
+        setImitationAudio(buffer)
+        setReversedImitationAudio(reversed)
+        setPhase("imitation-recorded")
+      } else {
+        setOriginalQuality(quality)
+        setOriginalTrim(region)
+        setOriginalAudio(buffer)
+        setReversedAudio(reversed)
+        setPhase("original-recorded")
+      }
+    },
+    [engine, settings.reversalMode],
+  )
+
+  const uploadOriginal = useCallback(
+    async (file: File) => {
+      setUploadError(null)
+
+      if (!isSupportedAudioFile(file)) {
+        setUploadError("That file type isn't supported. Please use a WAV, MP3, OGG or WebM file.")
+        return
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        setUploadError(`That file is too large. Please pick one under ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`)
+        return
       }
 
-      return reversedBuffer
+      let decodedBuffer: AudioBuffer
+      try {
+        decodedBuffer = await engine.decode(await file.arrayBuffer())
+      } catch (decodeError) {
+        console.error("Error decoding uploaded audio:", decodeError)
+        setUploadError("Could not read that audio file. It may be damaged or use an unsupported codec.")
+        return
+      }
+
+      let clip: PreparedClip
+      try {
+        clip = await prepareClip(decodedBuffer)
+      } catch (processError) {
+        console.error("Error processing uploaded audio:", processError)
+        setUploadError("Could not process that audio file. Please try another one.")
+        return
+      }
+      if (clip.buffer.duration > settings.maxOriginalDuration) {
+        setUploadError(
+          `That clip is ${clip.buffer.duration.toFixed(1)}s long. Please use one under ${settings.maxOriginalDuration}s.`,
+        )
+        return
+      }
+
+      try {
+        await commitClip(clip, false)
+      } catch (processError) {
+        console.error("Error processing uploaded audio:", processError)
+        setUploadError("Could not process that audio file. Please try another one.")
+      }
     },
-    [getAudioContext],
+    [engine, prepareClip, commitClip, settings.maxOriginalDuration],
+  )
+
+  // A remembered microphone that has since been unplugged fails its `exact` device constraint. Forget it and
+  // fall back to the system default instead of leaving the player stuck on an error.
+  const { inputId, setInputId } = audioDevices
+  const withInputFallback = useCallback(
+    async <T,>(open: (constraints: MediaTrackConstraints) => Promise<T>): Promise<T> => {
+      try {
+        return await open(buildAudioConstraints(settings.capture, inputId))
+      } catch (error) {
+        if (!inputId || (error as Error).name !== "OverconstrainedError") throw error
+        console.warn("Saved microphone is unavailable, using the default one:", error)
+        setInputId("")
+        return open(buildAudioConstraints(settings.capture))
+      }
+    },
+    [settings.capture, inputId, setInputId],
   )
 
   const requestMicrophonePermission = useCallback(async (): Promise<boolean> => {
     setPermissionError(null)
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      })
+      const stream = await withInputFallback((audio) => navigator.mediaDevices.getUserMedia({ audio }))
+      setAppliedTrackSettings(stream.getAudioTracks()[0]?.getSettings() ?? null)
       stream.getTracks().forEach((track) => track.stop())
       setMicPermission("granted")
       return true
@@ -168,85 +555,16 @@ export function ReverseAudioGame() {
       }
       return false
     }
-  }, [])
+  }, [withInputFallback])
 
   const startRecording = useCallback(
     async (forImitation = false) => {
       setPermissionError(null)
+      setUploadError(null)
 
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-            sampleRate: 44100,
-          },
-        })
-
-        streamRef.current = stream
+        setAppliedTrackSettings(await withInputFallback((constraints) => engine.open(constraints)))
         setMicPermission("granted")
-        const audioContext = getAudioContext()
-
-        const analyser = audioContext.createAnalyser()
-        analyser.fftSize = 256
-        const source = audioContext.createMediaStreamSource(stream)
-        source.connect(analyser)
-        setAnalyserNode(analyser)
-
-        const mimeTypes = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus", "audio/ogg"]
-
-        let selectedMimeType = ""
-        for (const mimeType of mimeTypes) {
-          if (MediaRecorder.isTypeSupported(mimeType)) {
-            selectedMimeType = mimeType
-            break
-          }
-        }
-
-        const mediaRecorderOptions: MediaRecorderOptions = selectedMimeType ? { mimeType: selectedMimeType } : {}
-
-        const mediaRecorder = new MediaRecorder(stream, mediaRecorderOptions)
-        mediaRecorderRef.current = mediaRecorder
-        chunksRef.current = []
-
-        mediaRecorder.ondataavailable = (e) => {
-          if (e.data.size > 0) {
-            chunksRef.current.push(e.data)
-          }
-        }
-
-        mediaRecorder.onstop = async () => {
-          const blob = new Blob(chunksRef.current, { type: selectedMimeType || "audio/webm" })
-          const arrayBuffer = await blob.arrayBuffer()
-
-          try {
-            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-
-            if (forImitation) {
-              setImitationAudio(audioBuffer)
-              const reversedImitation = reverseAudioBuffer(audioBuffer)
-              setReversedImitationAudio(reversedImitation)
-              setPhase("imitation-recorded")
-            } else {
-              setOriginalAudio(audioBuffer)
-              const reversed = reverseAudioBuffer(audioBuffer)
-              setReversedAudio(reversed)
-              setPhase("original-recorded")
-            }
-          } catch (decodeError) {
-            console.error("Error decoding audio:", decodeError)
-            setPermissionError("Failed to process the recording. Please try again.")
-            setPhase(forImitation ? "playing-reversed" : "start")
-          }
-
-          setAnalyserNode(null)
-          stream.getTracks().forEach((track) => track.stop())
-        }
-
-        mediaRecorder.start(100)
-        setIsRecording(true)
-        setPhase(forImitation ? "recording-imitation" : "recording-original")
       } catch (error) {
         const err = error as Error
         console.error("Error starting recording:", err)
@@ -256,12 +574,69 @@ export function ReverseAudioGame() {
           setPermissionError("Microphone access was denied. Please allow microphone access in your browser settings.")
         } else if (err.name === "NotFoundError") {
           setPermissionError("No microphone found. Please connect a microphone and try again.")
+        } else if (err.name === "OverconstrainedError") {
+          setPermissionError("Could not find a suitable microphone. Please try a different microphone.")
         } else {
           setPermissionError(`Could not start recording: ${err.message}`)
         }
+        return
+      }
+
+      const beginRecording = () => {
+        const takeStartedAt = engine.getContext().currentTime
+        engine
+          .record(settings.captureBackend)
+          .then((decodedBuffer) => {
+            const speechStart = speechStartRef.current
+            speechStartRef.current = null
+            const take =
+              speechStart === null
+                ? decodedBuffer
+                : trimLeadIn(decodedBuffer, speechStart - takeStartedAt - HANDS_FREE_LEAD_IN)
+            return prepareClip(take).then((clip) => commitClip(clip, forImitation))
+          })
+          .catch((error) => {
+            // Going back discards the take on purpose
+            if ((error as Error).name === "AbortError") return
+            console.error("Error processing audio:", error)
+            setPermissionError("Failed to process the recording. Please try again.")
+            setPhase(forImitation ? "playing-reversed" : "start")
+          })
+      }
+
+      // In hands-free mode capture runs while the voice activity detector listens, so the first syllable
+      // is already on tape when speech is detected; everything before it is trimmed off afterwards
+      const armRecording = () => {
+        speechStartRef.current = null
+        if (settings.handsFree) {
+          vadRef.current = createVoiceActivityDetector({ trailingSilence: settings.trailingSilence })
+          setIsListening(true)
+        }
+        // While listening the ring bounds the wait for speech; it restarts for the take itself
+        setRecordingStartedAt(performance.now())
+        beginRecording()
+      }
+
+      setPhase(forImitation ? "recording-imitation" : "recording-original")
+      // The mic is already open during the pre-roll, so recording starts without device latency
+      if (settings.preRoll) {
+        runPreRoll(armRecording)
+      } else {
+        armRecording()
       }
     },
-    [getAudioContext, reverseAudioBuffer],
+    [
+      engine,
+      prepareClip,
+      commitClip,
+      trimLeadIn,
+      settings.preRoll,
+      settings.handsFree,
+      settings.trailingSilence,
+      runPreRoll,
+      withInputFallback,
+      settings.captureBackend,
+    ],
   )
 
   const handleStartGame = useCallback(async () => {
@@ -289,76 +664,130 @@ export function ReverseAudioGame() {
     }
   }, [micPermission, requestMicrophonePermission, startRecording])
 
+  const reRecord = useCallback(() => {
+    if (phase === "original-recorded") {
+      setOriginalAudio(null)
+      setReversedAudio(null)
+      setOriginalTrim(null)
+      setOriginalQuality(null)
+      handleStartGame()
+    } else if (phase === "imitation-recorded") {
+      setImitationAudio(null)
+      setReversedImitationAudio(null)
+      setImitationTrim(null)
+      setImitationQuality(null)
+      handleStartImitation()
+    }
+  }, [phase, handleStartGame, handleStartImitation])
+
   const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop()
-      setIsRecording(false)
+    if (isRecording) {
+      engine.stop()
+      setRecordingStartedAt(null)
+      vadRef.current = null
     }
-  }, [isRecording])
+  }, [engine, isRecording])
 
-  const playAudio = useCallback(
-    (buffer: AudioBuffer, onEnd?: () => void) => {
-      const audioContext = getAudioContext()
+  // Ends the listening stage of a hands-free take; the time limit counts from here
+  const startSpokenTake = useCallback((speechStart: number) => {
+    speechStartRef.current = speechStart
+    setIsListening(false)
+    setRecordingStartedAt(performance.now())
+  }, [])
 
-      console.log("[v0] playAudio called, buffer:", buffer)
-      console.log("[v0] AudioContext state:", audioContext.state)
+  const startNow = useCallback(() => startSpokenTake(engine.getContext().currentTime), [engine, startSpokenTake])
 
-      if (sourceNodeRef.current) {
-        try {
-          sourceNodeRef.current.stop()
-        } catch {
-          // Source may already be stopped
-        }
-      }
+  const cancelListening = useCallback(() => {
+    speechStartRef.current = null
+    vadRef.current = null
+    setIsListening(false)
+  }, [])
 
-      if (audioContext.state === "suspended") {
-        console.log("[v0] Resuming suspended AudioContext")
-        audioContext.resume().then(() => {
-          console.log("[v0] AudioContext resumed, state:", audioContext.state)
-          playBufferInternal(audioContext, buffer, onEnd)
-        })
-      } else {
-        playBufferInternal(audioContext, buffer, onEnd)
-      }
-    },
-    [getAudioContext],
-  )
+  // Nobody spoke before the time ran out: drop the take instead of capturing silence indefinitely
+  const abandonListening = useCallback(() => {
+    cancelListening()
+    engine.cancel()
+    setRecordingStartedAt(null)
+    setPermissionError("Didn't hear anything. Please try again and speak a little louder.")
+    setPhase(phase === "recording-imitation" ? "playing-reversed" : "start")
+  }, [engine, phase, cancelListening])
 
-  const playBufferInternal = useCallback((audioContext: AudioContext, buffer: AudioBuffer, onEnd?: () => void) => {
-    console.log("[v0] playBufferInternal called")
+  useEffect(() => {
+    if (!isListening && !(isRecording && vadRef.current)) return
+
+    return engine.on("level", ({ samples, time }) => {
+      const vad = vadRef.current
+      if (!vad) return
+      const event = vad.process(samples, time)
+      if (event === "speech-start" && isListening) {
+        startSpokenTake(vad.speechStart() ?? time)
+      } else if (event === "speech-end" && isRecording) {
+        vadRef.current = null
+        stopRecording()
+      }
+    })
+  }, [engine, isListening, isRecording, startSpokenTake, stopRecording])
 
-    const source = audioContext.createBufferSource()
-    source.buffer = buffer
+  const recordingLimit =
+    phase === "recording-imitation" ? settings.maxImitationDuration : settings.maxOriginalDuration
 
-    const analyser = audioContext.createAnalyser()
-    analyser.fftSize = 256
-    source.connect(analyser)
-    analyser.connect(audioContext.destination)
-    setAnalyserNode(analyser)
+  useEffect(() => {
+    if (!isRecording || recordingStartedAt === null) return
 
-    console.log("[v0] Audio nodes connected to destination")
+    const remaining = recordingLimit * 1000 - (performance.now() - recordingStartedAt)
+    const timeout = setTimeout(isListening ? abandonListening : stopRecording, Math.max(0, remaining))
+    return () => clearTimeout(timeout)
+  }, [isRecording, isListening, recordingStartedAt, recordingLimit, stopRecording, abandonListening])
 
-    source.onended = () => {
-      console.log("[v0] Audio playback ended")
-      setIsPlaying(false)
-      setAnalyserNode(null)
-      if (onEnd) onEnd()
-    }
+  const stopPlayback = useCallback(() => engine.stop(), [engine])
 
-    sourceNodeRef.current = source
-    source.start()
-    console.log("[v0] Audio playback started")
-    setIsPlaying(true)
-  }, [])
+  const playAudio = useCallback(
+    (buffer: AudioBuffer, options?: PlayOptions) => {
+      console.log("[v0] playAudio called, buffer:", buffer)
+      engine.play(buffer, options)
+    },
+    [engine],
+  )
 
   const playReversedAudio = useCallback(() => {
-    console.log("[v0] playReversedAudio called, reversedAudio:", reversedAudio)
-    if (reversedAudio && reversedPlayCount < MAX_REVERSE_PLAYS) {
+    console.log("[v0] playReversedAudio called, reversedAudio:", reversedPlaybackAudio)
+    if (reversedPlaybackAudio && reversedPlayCount < MAX_REVERSE_PLAYS) {
       setPhase("playing-reversed")
-      playAudio(reversedAudio)
+      playAudio(reversedPlaybackAudio)
       setReversedPlayCount((prev) => prev + 1)
     }
-  }, [reversedAudio, playAudio, reversedPlayCount])
+  }, [reversedPlaybackAudio, playAudio, reversedPlayCount])
+
+  const chargeRegion = useCallback((region: PlaybackRegion, duration: number) => {
+    if (isPracticeRegion(region, duration)) {
+      setPracticeLoopCount((prev) => prev + 1)
+    } else {
+      setReversedPlayCount((prev) => prev + 1)
+    }
+  }, [])
+
+  const loopReversedRegion = useCallback(() => {
+    if (!reversedPlaybackAudio || !reversedSelection) return
+
+    const { duration } = reversedPlaybackAudio
+    if (!canPlayRegion(reversedSelection, duration, reversedPlayCount, practiceLoopCount)) return
+
+    playAudio(reversedPlaybackAudio, { region: reversedSelection, loop: true, loopCount: LOOP_REPEATS })
+    chargeRegion(reversedSelection, duration)
+  }, [reversedPlaybackAudio, reversedSelection, reversedPlayCount, practiceLoopCount, playAudio, chargeRegion])
+
+  // Chunks don't touch the loop or play allowances, but each one can only be replayed a couple of times
+  const playReversedChunk = useCallback(
+    (chunk: PlaybackRegion) => {
+      if (!reversedPlaybackAudio || reversedPlayCount >= MAX_REVERSE_PLAYS) return
+      const syllable = reversedOnsets.filter((onset) => onset <= chunk.start).length
+      if ((chunkPlayCounts[syllable] ?? 0) >= MAX_CHUNK_PLAYS) return
+
+      playAudio(reversedPlaybackAudio, { region: chunk })
+      setChunkPlayCounts((prev) => ({ ...prev, [syllable]: (prev[syllable] ?? 0) + 1 }))
+    },
+    [reversedPlaybackAudio, reversedPlayCount, reversedOnsets, chunkPlayCounts, playAudio],
+  )
 
   const playImitationReversed = useCallback(() => {
     console.log("[v0] playImitationReversed called, reversedImitationAudio:", reversedImitationAudio)
@@ -374,6 +803,69 @@ export function ReverseAudioGame() {
     }
   }, [originalAudio, playAudio])
 
+  const playSplitEar = useCallback(() => {
+    if (originalAudio && reversedImitationAudio) {
+      playAudio(originalAudio, {
+        splitEar: { companion: reversedImitationAudio, balance: splitEarBalance },
+      })
+    }
+  }, [originalAudio, reversedImitationAudio, splitEarBalance, playAudio])
+
+  const changeSplitEarBalance = useCallback(
+    (balance: number) => {
+      setSplitEarBalance(balance)
+      engine.setSplitEarBalance(balance)
+    },
+    [engine],
+  )
+
+  // Original, what the imitator heard, the imitation, then the imitation flipped back
+  const renderRevealReel = useCallback(async () => {
+    const clips = [originalAudio, reversedPlaybackAudio, imitationAudio, reversedImitationAudio]
+    if (clips.some((clip) => !clip)) {
+      throw new Error("Reveal reel needs all four recordings")
+    }
+    return renderMontage(clips as AudioBuffer[])
+  }, [originalAudio, reversedPlaybackAudio, imitationAudio, reversedImitationAudio])
+
+  // Plays one side of the comparison from a point on the shared, aligned time axis
+  const playAligned = useCallback(
+    (which: "original" | "imitation", sharedTime: number) => {
+      const buffer = which === "original" ? originalAudio : reversedImitationAudio
+      if (!buffer || !alignment) return
+
+      const start = which === "original" ? alignment.referenceStart : alignment.candidateStart
+      // Seeking past the end of this clip restarts it rather than playing nothing
+      const offset = Math.max(0, sharedTime - start)
+      const region = { start: offset >= buffer.duration ? 0 : offset, end: buffer.duration }
+      playAudio(buffer, { region })
+    },
+    [originalAudio, reversedImitationAudio, alignment, playAudio],
+  )
+
+  // Starts both clips from a point on the shared time axis, each at its own aligned offset, as split-ear
+  // playback with the current balance. Clicking before the original begins starts from its first sample.
+  const seekComparison = useCallback(
+    (sharedTime: number) => {
+      setComparisonCursor(sharedTime)
+      if (!originalAudio || !reversedImitationAudio || !alignment) return
+
+      const { referenceStart, candidateStart } = alignment
+      // Seeking past the end of the original restarts the comparison rather than playing nothing
+      const from = sharedTime - referenceStart >= originalAudio.duration ? referenceStart : sharedTime
+      const start = Math.max(from, referenceStart)
+      playAudio(originalAudio, {
+        region: { start: start - referenceStart, end: originalAudio.duration },
+        splitEar: {
+          companion: reversedImitationAudio,
+          balance: splitEarBalance,
+          companionOffset: start - candidateStart,
+        },
+      })
+    },
+    [originalAudio, reversedImitationAudio, alignment, splitEarBalance, playAudio],
+  )
+
   const handleGoToVoting = useCallback(() => {
     setPhase("voting")
   }, [])
@@ -381,6 +873,18 @@ export function ReverseAudioGame() {
   const handleVote = useCallback(
     (wasClose: boolean) => {
       setVoteResult(wasClose)
+      setRoundHistory((history) => [
+        ...history,
+        {
+          round: roundCount,
+          recorder: (currentRecorder === 1 ? player1 : player2).name,
+          imitator: (currentRecorder === 1 ? player2 : player1).name,
+          modifier: roundModifier,
+          reversalMode: settings.reversalMode,
+          wasClose,
+          score: similarityScore,
+        },
+      ])
 
       if (!wasClose) {
         // Deduct life from the imitating player
@@ -399,7 +903,7 @@ export function ReverseAudioGame() {
 
       setPhase("reveal")
     },
-    [currentRecorder, player1, player2],
+    [currentRecorder, player1, player2, roundCount, roundModifier, settings.reversalMode, similarityScore],
   )
 
   const nextRound = useCallback(() => {
@@ -407,19 +911,24 @@ export function ReverseAudioGame() {
     setReversedAudio(null)
     setImitationAudio(null)
     setReversedImitationAudio(null)
-    setIsRecording(false)
-    setIsPlaying(false)
-    setAnalyserNode(null)
+    setOriginalTrim(null)
+    setImitationTrim(null)
+    setOriginalQuality(null)
+    setImitationQuality(null)
+    setReversedSelection(null)
+    setRecordingStartedAt(null)
     setPermissionError(null)
+    setUploadError(null)
     setVoteResult(null)
     setCurrentRecorder(currentRecorder === 1 ? 2 : 1)
     setRoundCount(roundCount + 1)
     setReversedPlayCount(0)
+    setPracticeLoopCount(0)
+    setChunkPlayCounts({})
+    setRoundModifier("none")
     setPhase("start")
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop()
-    }
-  }, [currentRecorder, roundCount])
+    stopPlayback()
+  }, [currentRecorder, roundCount, stopPlayback])
 
   const resetGame = useCallback(() => {
     setPhase("setup")
@@ -427,37 +936,36 @@ export function ReverseAudioGame() {
     setReversedAudio(null)
     setImitationAudio(null)
     setReversedImitationAudio(null)
-    setIsRecording(false)
-    setIsPlaying(false)
-    setAnalyserNode(null)
+    setOriginalTrim(null)
+    setImitationTrim(null)
+    setOriginalQuality(null)
+    setImitationQuality(null)
+    setReversedSelection(null)
+    setRecordingStartedAt(null)
     setPermissionError(null)
+    setUploadError(null)
     setVoteResult(null)
     setPlayer1({ name: "", lives: MAX_LIVES })
     setPlayer2({ name: "", lives: MAX_LIVES })
     setCurrentRecorder(1)
     setRoundCount(1)
     setReversedPlayCount(0)
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop()
-    }
-  }, [])
+    setPracticeLoopCount(0)
+    setChunkPlayCounts({})
+    setRoundModifier("none")
+    setRoundHistory([])
+    stopPlayback()
+  }, [stopPlayback])
 
   const goBack = useCallback(() => {
-    // Stop any ongoing recording or playback
-    if (isRecording && mediaRecorderRef.current) {
-      mediaRecorderRef.current.stop()
-      setIsRecording(false)
-    }
-    if (sourceNodeRef.current) {
-      try {
-        sourceNodeRef.current.stop()
-      } catch {
-        // Source may already be stopped
-      }
-    }
-    setIsPlaying(false)
-    setAnalyserNode(null)
+    // Stop any ongoing recording, pre-roll, hands-free listening or playback
+    cancelPreRoll()
+    cancelListening()
+    engine.cancel()
+    setRecordingStartedAt(null)
+    stopPlayback()
     setPermissionError(null)
+    setUploadError(null)
 
     // Navigate to previous phase based on current phase
     switch (phase) {
@@ -469,28 +977,28 @@ export function ReverseAudioGame() {
         break
       case "recording-original":
         setPhase("start")
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach((track) => track.stop())
-        }
         break
       case "original-recorded":
         setOriginalAudio(null)
         setReversedAudio(null)
+        setOriginalTrim(null)
+        setOriginalQuality(null)
         setPhase("start")
         break
       case "playing-reversed":
         setPhase("original-recorded")
         setReversedPlayCount(0) // Reset playback count when going back
+        setPracticeLoopCount(0)
+        setChunkPlayCounts({})
         break
       case "recording-imitation":
         setPhase("playing-reversed")
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach((track) => track.stop())
-        }
         break
       case "imitation-recorded":
         setImitationAudio(null)
         setReversedImitationAudio(null)
+        setImitationTrim(null)
+        setImitationQuality(null)
         setPhase("playing-reversed")
         break
       case "voting":
@@ -503,12 +1011,23 @@ export function ReverseAudioGame() {
           setImitatorPlayer({ ...imitatorPlayer, lives: imitatorPlayer.lives + 1 })
         }
         setVoteResult(null)
+        setRoundHistory((history) => history.slice(0, -1))
         setPhase("voting")
         break
       default:
         break
     }
-  }, [phase, isRecording, voteResult, currentRecorder, player1, player2])
+  }, [
+    phase,
+    engine,
+    voteResult,
+    currentRecorder,
+    player1,
+    player2,
+    stopPlayback,
+    cancelPreRoll,
+    cancelListening,
+  ])
 
   const handleSetupSubmit = useCallback(
     (e: React.FormEvent) => {
@@ -522,15 +1041,40 @@ export function ReverseAudioGame() {
 
   useEffect(() => {
     return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop())
-      }
+      preRollTimersRef.current.forEach(clearTimeout)
     }
   }, [])
 
   const recorder = currentRecorder === 1 ? player1 : player2
   const imitator = currentRecorder === 1 ? player2 : player1
 
+  const comparisonWaveforms =
+    originalAudio && reversedImitationAudio ? (
+      <div className="space-y-2">
+        <Waveform
+          buffer={originalAudio}
+          audioContext={engine.context}
+          playback={playback}
+          label={`Original · ${recorder.name}`}
+          className="h-20"
+        />
+        <Waveform
+          buffer={reversedImitationAudio}
+          audioContext={engine.context}
+          playback={playback}
+          label={`Imitation reversed · ${imitator.name}`}
+          className="h-20"
+        />
+      </div>
+    ) : null
+
+  const roundRecordings = [
+    { id: "original", label: "Original", buffer: originalAudio },
+    { id: "reversed", label: "Reversed", buffer: reversedAudio },
+    { id: "imitation", label: "Imitation", buffer: imitationAudio },
+    { id: "imitation-reversed", label: "Imitation reversed", buffer: reversedImitationAudio },
+  ]
+
   const LivesDisplay = ({ player, highlight }: { player: PlayerState; highlight?: boolean }) => (
     <div
       className={`flex items-center gap-2 px-3 py-2 rounded-lg ${highlight ? "bg-primary/10 ring-2 ring-primary" : "bg-muted/50"}`}
@@ -582,6 +1126,13 @@ export function ReverseAudioGame() {
 
         <Card className="mt-6 border-2 border-border shadow-xl bg-card overflow-hidden relative">
           <CardContent className="p-6 md:p-8">
+            {playbackRateError && (
+              <Alert variant="destructive" className="mb-6">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Playback Speed Unavailable</AlertTitle>
+                <AlertDescription className="mt-2">{playbackRateError}</AlertDescription>
+              </Alert>
+            )}
             {permissionError && (
               <Alert variant="destructive" className="mb-6">
                 <AlertCircle className="h-4 w-4" />
@@ -603,7 +1154,20 @@ export function ReverseAudioGame() {
             )}
 
             {phase !== "setup" && phase !== "game-over" && (
-              <AudioVisualizer analyser={analyserNode} isActive={isRecording || isPlaying} />
+              <>
+                <AudioVisualizer
+                  analyser={analyserNode}
+                  isActive={isRecording || isPlaying || isListening || preRollCount !== null}
+                  mode={settings.visualizerMode}
+                  colormap={settings.colormap}
+                />
+                <VisualizerControls
+                  mode={settings.visualizerMode}
+                  colormap={settings.colormap}
+                  onModeChange={(visualizerMode) => setSettings({ ...settings, visualizerMode })}
+                  onColormapChange={(colormap) => setSettings({ ...settings, colormap })}
+                />
+              </>
             )}
 
             <div className="mt-8 space-y-4">
@@ -683,6 +1247,12 @@ export function ReverseAudioGame() {
                     <LivesDisplay player={player1} />
                     <LivesDisplay player={player2} />
                   </div>
+                  <RoundHistory rounds={roundHistory} />
+                  <RecordingDownloads
+                    recordings={roundRecordings}
+                    filenamePrefix={`rev3rse-round-${roundCount}`}
+                    renderReel={renderRevealReel}
+                  />
                   <Button size="lg" onClick={resetGame} className="px-8">
                     <RotateCcw className="mr-2 h-4 w-4" />
                     Play Again
@@ -723,6 +1293,31 @@ export function ReverseAudioGame() {
                       </div>
                     </div>
                   </div>
+                  <ReversalModePicker
+                    value={settings.reversalMode}
+                    onChange={(reversalMode) => setSettings({ ...settings, reversalMode })}
+                  />
+                  <VoiceModifierPicker value={roundModifier} onChange={setRoundModifier} />
+                  <GameSettingsPanel settings={settings} onChange={setSettings}>
+                    <DevicePicker
+                      inputs={audioDevices.inputs}
+                      outputs={audioDevices.outputs}
+                      inputId={audioDevices.inputId}
+                      outputId={audioDevices.outputId}
+                      onInputChange={audioDevices.setInputId}
+                      onOutputChange={audioDevices.setOutputId}
+                      canSelectOutput={audioDevices.canSelectOutput}
+                    />
+                    <CaptureSettingsPanel
+                      capture={settings.capture}
+                      onChange={(capture) => setSettings({ ...settings, capture })}
+                      applied={appliedTrackSettings}
+                      backend={settings.captureBackend}
+                      onBackendChange={(captureBackend) => setSettings({ ...settings, captureBackend })}
+                      activeBackend={captureBackend}
+                      availableBackends={availableBackends}
+                    />
+                  </GameSettingsPanel>
                   {micPermission === "unsupported" ? (
                     <div className="flex flex-col items-center gap-3">
                       <MicOff className="h-12 w-12 text-muted-foreground" />
@@ -738,6 +1333,14 @@ export function ReverseAudioGame() {
                       {recorder.name}, Start Recording
                     </Button>
                   )}
+                  {uploadError && (
+                    <Alert variant="destructive" className="text-left">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>Couldn&apos;t Use That File</AlertTitle>
+                      <AlertDescription>{uploadError}</AlertDescription>
+                    </Alert>
+                  )}
+                  <AudioFileDrop onFile={uploadOriginal} accept={UPLOAD_ACCEPT} />
                 </div>
               )}
 
@@ -758,19 +1361,48 @@ export function ReverseAudioGame() {
 
               {phase === "recording-original" && (
                 <div className="text-center space-y-4">
-                  <BackButton disabled={isRecording} />
-                  <div className="animate-pulse mt-8">
-                    <div className="w-20 h-20 mx-auto bg-primary/20 rounded-full flex items-center justify-center">
-                      <div className="w-14 h-14 bg-primary rounded-full flex items-center justify-center">
-                        <Mic className="h-7 w-7 text-primary-foreground" />
+                  <BackButton disabled={isRecording && !isListening} />
+                  {preRollCount !== null ? (
+                    <PreRollCountdown count={preRollCount} />
+                  ) : recordingStartedAt !== null ? (
+                    <div className="mt-8 mb-10">
+                      <CountdownRing startedAt={recordingStartedAt} duration={recordingLimit}>
+                        <div className="w-16 h-16 bg-primary rounded-full flex items-center justify-center animate-pulse">
+                          <Mic className="h-7 w-7 text-primary-foreground" />
+                        </div>
+                      </CountdownRing>
+                    </div>
+                  ) : (
+                    <div className="animate-pulse mt-8">
+                      <div className="w-20 h-20 mx-auto bg-primary/20 rounded-full flex items-center justify-center">
+                        <div className="w-14 h-14 bg-primary rounded-full flex items-center justify-center">
+                          <Mic className="h-7 w-7 text-primary-foreground" />
+                        </div>
                       </div>
                     </div>
-                  </div>
+                  )}
                   <p className="text-lg font-medium text-foreground">{recorder.name}, say something!</p>
                   <p className="text-sm text-muted-foreground">{imitator.name} should look away!</p>
-                  <Button size="lg" onClick={stopRecording} variant="destructive" className="px-8">
-                    Stop Recording
-                  </Button>
+                  <LevelMeter analyser={analyserNode} isActive={isRecording || isListening} />
+                  {isListening ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">Listening... recording starts when you speak</p>
+                      <div className="flex justify-center gap-3">
+                        <Button size="lg" onClick={startNow} variant="outline" className="px-8">
+                          Start Now
+                        </Button>
+                        <Button size="lg" onClick={goBack} variant="ghost">
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    preRollCount === null && (
+                      <Button size="lg" onClick={stopRecording} variant="destructive" className="px-8">
+                        Stop Recording
+                      </Button>
+                    )
+                  )}
                 </div>
               )}
 
@@ -783,8 +1415,29 @@ export function ReverseAudioGame() {
                       {recorder.name}&apos;s phrase recorded! Pass to {imitator.name}
                     </p>
                   </div>
+                  {originalAudio && (
+                    <Waveform
+                      buffer={originalAudio}
+                      audioContext={engine.context}
+                      playback={playback}
+                      label="Original"
+                    />
+                  )}
+                  {originalTrim && originalAudio && (
+                    <TrimSummary region={originalTrim} sampleRate={originalAudio.sampleRate} />
+                  )}
+                  {originalQuality && <RecordingQuality quality={originalQuality} onReRecord={reRecord} />}
                   <p className="text-muted-foreground">{imitator.name}: Listen carefully to the reversed audio</p>
-                  <Button size="lg" onClick={playReversedAudio} className="px-8" disabled={isPlaying}>
+                  <div className="flex justify-center gap-2">
+                    <ReversalModeBadge mode={settings.reversalMode} />
+                    <VoiceModifierBadge modifier={roundModifier} />
+                  </div>
+                  <Button
+                    size="lg"
+                    onClick={playReversedAudio}
+                    className="px-8"
+                    disabled={isPlaying || !reversedPlaybackAudio}
+                  >
                     <Volume2 className="mr-2 h-5 w-5" />
                     Play Reversed Audio
                   </Button>
@@ -802,10 +1455,69 @@ export function ReverseAudioGame() {
                     </div>
                   </div>
                   <p className="text-lg font-medium text-foreground">{imitator.name}, listen carefully!</p>
+                  <div className="flex justify-center gap-2">
+                    <ReversalModeBadge mode={settings.reversalMode} />
+                    <VoiceModifierBadge modifier={roundModifier} />
+                  </div>
                   <p className="text-sm text-muted-foreground">Try to remember it and imitate it!</p>
                   <p className="text-xs text-muted-foreground">
-                    Plays remaining: {MAX_REVERSE_PLAYS - reversedPlayCount} of {MAX_REVERSE_PLAYS}
+                    Plays remaining: {MAX_REVERSE_PLAYS - reversedPlayCount} of {MAX_REVERSE_PLAYS} · Practice loops:{" "}
+                    {MAX_PRACTICE_LOOPS - practiceLoopCount} of {MAX_PRACTICE_LOOPS}
                   </p>
+                  <PlaybackRateControl
+                    rate={settings.reversedPlaybackRate}
+                    onChange={(rate) => setSettings({ ...settings, reversedPlaybackRate: rate })}
+                    disabled={isPlaying}
+                  />
+                  {reversedPlaybackAudio && (
+                    <div className="space-y-2">
+                      <Waveform
+                        buffer={reversedPlaybackAudio}
+                        audioContext={engine.context}
+                        playback={playback}
+                        label="Reversed"
+                        selection={reversedSelection}
+                        onSelectionChange={isPlaying ? undefined : setReversedSelection}
+                        markers={reversedOnsets}
+                        onChunkClick={isPlaying ? undefined : playReversedChunk}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Drag across the waveform to loop a part {LOOP_REPEATS} times. Loops up to half the clip use
+                        a practice loop; longer ones use a play.
+                      </p>
+                      {reversedOnsets.length > 1 && (
+                        <p className="text-xs text-muted-foreground">
+                          Ticks mark {reversedOnsets.length} syllables. Click between two ticks to hear just that
+                          chunk, up to {MAX_CHUNK_PLAYS} times each.
+                        </p>
+                      )}
+                      {playback?.loop ? (
+                        <Button size="sm" variant="outline" onClick={stopPlayback}>
+                          <Square className="mr-2 h-4 w-4" />
+                          Stop Loop
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={loopReversedRegion}
+                          disabled={
+                            isPlaying ||
+                            !reversedSelection ||
+                            !canPlayRegion(
+                              reversedSelection,
+                              reversedPlaybackAudio.duration,
+                              reversedPlayCount,
+                              practiceLoopCount,
+                            )
+                          }
+                        >
+                          <Repeat className="mr-2 h-4 w-4" />
+                          Loop Selection
+                        </Button>
+                      )}
+                    </div>
+                  )}
                   <div className="flex flex-col sm:flex-row gap-3 justify-center">
                     <Button
                       size="lg"
@@ -826,19 +1538,48 @@ export function ReverseAudioGame() {
 
               {phase === "recording-imitation" && (
                 <div className="text-center space-y-4">
-                  <BackButton disabled={isRecording} />
-                  <div className="animate-pulse mt-8">
-                    <div className="w-20 h-20 mx-auto bg-accent/20 rounded-full flex items-center justify-center">
-                      <div className="w-14 h-14 bg-accent rounded-full flex items-center justify-center">
-                        <Mic className="h-7 w-7 text-accent-foreground" />
+                  <BackButton disabled={isRecording && !isListening} />
+                  {preRollCount !== null ? (
+                    <PreRollCountdown count={preRollCount} />
+                  ) : recordingStartedAt !== null ? (
+                    <div className="mt-8 mb-10">
+                      <CountdownRing startedAt={recordingStartedAt} duration={recordingLimit}>
+                        <div className="w-16 h-16 bg-accent rounded-full flex items-center justify-center animate-pulse">
+                          <Mic className="h-7 w-7 text-accent-foreground" />
+                        </div>
+                      </CountdownRing>
+                    </div>
+                  ) : (
+                    <div className="animate-pulse mt-8">
+                      <div className="w-20 h-20 mx-auto bg-accent/20 rounded-full flex items-center justify-center">
+                        <div className="w-14 h-14 bg-accent rounded-full flex items-center justify-center">
+                          <Mic className="h-7 w-7 text-accent-foreground" />
+                        </div>
                       </div>
                     </div>
-                  </div>
+                  )}
                   <p className="text-lg font-medium text-foreground">{imitator.name}, imitate it!</p>
                   <p className="text-sm text-muted-foreground">Try to copy the reversed audio!</p>
-                  <Button size="lg" onClick={stopRecording} variant="destructive" className="px-8">
-                    Stop Recording
-                  </Button>
+                  <LevelMeter analyser={analyserNode} isActive={isRecording || isListening} />
+                  {isListening ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">Listening... recording starts when you speak</p>
+                      <div className="flex justify-center gap-3">
+                        <Button size="lg" onClick={startNow} variant="outline" className="px-8">
+                          Start Now
+                        </Button>
+                        <Button size="lg" onClick={goBack} variant="ghost">
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    preRollCount === null && (
+                      <Button size="lg" onClick={stopRecording} variant="destructive" className="px-8">
+                        Stop Recording
+                      </Button>
+                    )
+                  )}
                 </div>
               )}
 
@@ -851,6 +1592,10 @@ export function ReverseAudioGame() {
                       {imitator.name}&apos;s imitation recorded! Ready to vote?
                     </p>
                   </div>
+                  {imitationTrim && imitationAudio && (
+                    <TrimSummary region={imitationTrim} sampleRate={imitationAudio.sampleRate} />
+                  )}
+                  {imitationQuality && <RecordingQuality quality={imitationQuality} onReRecord={reRecord} />}
                   <Button size="lg" onClick={handleGoToVoting} className="px-8">
                     <ArrowRight className="mr-2 h-5 w-5" />
                     Compare & Vote
@@ -867,6 +1612,8 @@ export function ReverseAudioGame() {
                       Play both audios and decide if {imitator.name} got close enough
                     </p>
                   </div>
+                  <SimilarityScore score={similarityScore} progress={analysisProgress} />
+                  {comparisonWaveforms}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     <Button
                       size="lg"
@@ -892,6 +1639,14 @@ export function ReverseAudioGame() {
                     </Button>
                   </div>
 
+                  <SplitEarControl
+                    balance={splitEarBalance}
+                    onBalanceChange={changeSplitEarBalance}
+                    onPlay={playSplitEar}
+                    onStop={stopPlayback}
+                    isActive={isPlaying && !!playback?.companion}
+                    disabled={isPlaying}
+                  />
                   <div className="border-t border-border pt-6 mt-6">
                     <h4 className="text-lg font-semibold text-foreground mb-4">
                       Was {imitator.name}&apos;s imitation close enough?
@@ -946,13 +1701,56 @@ export function ReverseAudioGame() {
                   <div className="bg-gradient-to-r from-primary/10 via-accent/10 to-secondary/10 rounded-xl p-6">
                     <h3 className="text-xl font-bold text-foreground mb-2">Listen Again</h3>
                     <p className="text-muted-foreground text-sm">
-                      Original vs {imitator.name}&apos;s reversed imitation
+                      Original vs {imitator.name}&apos;s imitation,{" "}
+                      {settings.reversalMode === "full" ? "reversed" : "unscrambled"}
                     </p>
+                    <div className="mt-3 flex justify-center gap-2">
+                      <ReversalModeBadge mode={settings.reversalMode} />
+                      <VoiceModifierBadge modifier={roundModifier} />
+                    </div>
                   </div>
+                  <SimilarityScore score={similarityScore} progress={analysisProgress} />
+                  {originalAudio && reversedImitationAudio && alignment ? (
+                    <ComparisonView
+                      original={originalAudio}
+                      imitation={reversedImitationAudio}
+                      alignment={alignment}
+                      cursor={comparisonCursor}
+                      onSeek={seekComparison}
+                      audioContext={engine.context}
+                      playback={playback}
+                    />
+                  ) : (
+                    comparisonWaveforms
+                  )}
+                  {pitchAnalysis && alignment && (
+                    <PitchContourChart
+                      original={pitchAnalysis.original}
+                      imitation={pitchAnalysis.imitation}
+                      alignment={alignment}
+                      melodyScore={pitchAnalysis.melodyScore}
+                    />
+                  )}
+                  {originalAudio && reversedImitationAudio && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Spectrogram
+                        buffer={originalAudio}
+                        processor={processor}
+                        colormap={settings.colormap}
+                        label="Original"
+                      />
+                      <Spectrogram
+                        buffer={reversedImitationAudio}
+                        processor={processor}
+                        colormap={settings.colormap}
+                        label="Imitation reversed"
+                      />
+                    </div>
+                  )}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     <Button
                       size="lg"
-                      onClick={playOriginal}
+                      onClick={() => (alignment ? playAligned("original", comparisonCursor) : playOriginal())}
                       variant="outline"
                       disabled={isPlaying}
                       className="flex flex-col h-auto py-4 bg-transparent"
@@ -963,7 +1761,9 @@ export function ReverseAudioGame() {
                     </Button>
                     <Button
                       size="lg"
-                      onClick={playImitationReversed}
+                      onClick={() =>
+                        alignment ? playAligned("imitation", comparisonCursor) : playImitationReversed()
+                      }
                       disabled={isPlaying}
                       className="flex flex-col h-auto py-4"
                     >
@@ -972,6 +1772,20 @@ export function ReverseAudioGame() {
                       <span className="text-xs text-primary-foreground/70">Did {imitator.name} match it?</span>
                     </Button>
                   </div>
+                  <SplitEarControl
+                    balance={splitEarBalance}
+                    onBalanceChange={changeSplitEarBalance}
+                    onPlay={playSplitEar}
+                    onStop={stopPlayback}
+                    isActive={isPlaying && !!playback?.companion}
+                    disabled={isPlaying}
+                  />
+                  <RecordingDownloads
+                    recordings={roundRecordings}
+                    filenamePrefix={`rev3rse-round-${roundCount}`}
+                    renderReel={renderRevealReel}
+                  />
+                  <RoundHistory rounds={roundHistory} />
                   <Button size="lg" onClick={nextRound} variant="secondary" className="mt-4">
                     <ArrowRight className="mr-2 h-4 w-4" />
                     Next Round (Swap Roles)
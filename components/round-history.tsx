@@ -0,0 +1,48 @@
+"use client"
+
+import { History, ThumbsDown, ThumbsUp } from "lucide-react"
+import { VoiceModifierBadge } from "@/components/voice-modifier-picker"
+import { ReversalModeBadge } from "@/components/reversal-mode-picker"
+import type { VoiceModifierId } from "@/lib/audio/effects"
+import type { ReversalModeId } from "@/lib/audio/reversal"
+
+export interface RoundSummary {
+  round: number
+  recorder: string
+  imitator: string
+  modifier: VoiceModifierId
+  reversalMode: ReversalModeId
+  wasClose: boolean
+  score: number | null
+}
+
+export function RoundHistory({ rounds }: { rounds: RoundSummary[] }) {
+  if (rounds.length === 0) return null
+
+  return (
+    <div className="bg-muted/50 rounded-xl p-4 text-left">
+      <p className="text-sm font-medium flex items-center gap-2 mb-3">
+        <History className="h-4 w-4 text-primary" />
+        Round History
+      </p>
+      <ul className="space-y-2">
+        {rounds.map((entry) => (
+          <li key={entry.round} className="flex items-center gap-3 text-sm">
+            <span className="text-muted-foreground tabular-nums w-6">#{entry.round}</span>
+            {entry.wasClose ? (
+              <ThumbsUp className="h-4 w-4 text-green-600 shrink-0" />
+            ) : (
+              <ThumbsDown className="h-4 w-4 text-destructive shrink-0" />
+            )}
+            <span className="flex-1 truncate">
+              <strong>{entry.imitator}</strong> imitating {entry.recorder}
+            </span>
+            {entry.reversalMode !== "full" && <ReversalModeBadge mode={entry.reversalMode} />}
+            <VoiceModifierBadge modifier={entry.modifier} />
+            <span className="text-muted-foreground tabular-nums w-10 text-right">{entry.score ?? "–"}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+import { Progress } from "@/components/ui/progress"
+import { Gauge } from "lucide-react"
+
+interface SimilarityScoreProps {
+  score: number | null
+  // Fraction of the analysis done while the score is still being computed
+  progress?: number | null
+  className?: string
+}
+
+function getScoreLabel(score: number): string {
+  if (score >= 80) return "Spot on!"
+  if (score >= 60) return "Pretty close"
+  if (score >= 40) return "Getting there"
+  if (score >= 20) return "Not quite"
+  return "Way off"
+}
+
+export function SimilarityScore({ score, progress = null, className }: SimilarityScoreProps) {
+  const analyzingLabel =
+    progress === null ? "Analyzing recordings..." : `Analyzing recordings... ${Math.round(progress * 100)}%`
+
+  return (
+    <div className={cn("bg-muted/50 rounded-xl p-4 text-left", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium flex items-center gap-2">
+          <Gauge className="h-4 w-4 text-primary" />
+          Similarity Score
+        </span>
+        <span className="text-2xl font-bold text-primary tabular-nums">{score === null ? "…" : score}</span>
+      </div>
+      <Progress value={score ?? (progress ?? 0) * 100} className={cn(score === null && "opacity-50")} />
+      <p className="text-xs text-muted-foreground mt-2">
+        {score === null ? analyzingLabel : `${getScoreLabel(score)} — computed from both recordings`}
+      </p>
+    </div>
+  )
+}
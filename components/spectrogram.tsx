@@ -0,0 +1,86 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { toMono } from "@/lib/audio/buffer"
+import { getColormapLut, type ColormapName } from "@/lib/audio/colormap"
+import type { AudioProcessor } from "@/lib/audio/processor"
+import {
+  SPECTROGRAM_DYNAMIC_RANGE_DB,
+  logFrequencyBin,
+  type Spectrogram as SpectrogramData,
+} from "@/lib/audio/spectrogram"
+
+interface SpectrogramProps {
+  buffer: AudioBuffer
+  // The FFTs run on the processing worker; the canvas stays empty until they finish
+  processor: AudioProcessor
+  colormap?: ColormapName
+  label?: string
+  className?: string
+}
+
+const SPECTROGRAM_ROWS = 128
+
+export function Spectrogram({ buffer, processor, colormap = "magma", label, className }: SpectrogramProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [spectrogram, setSpectrogram] = useState<SpectrogramData | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setSpectrogram(null)
+    processor
+      .run("spectrogram", { samples: toMono(buffer).slice(), sampleRate: buffer.sampleRate })
+      .then((output) => {
+        if (!cancelled) setSpectrogram(output.spectrogram)
+      })
+      .catch((error) => console.error("Error computing spectrogram:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [buffer, processor])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !spectrogram) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    const { frames, maxDb } = spectrogram
+    const columns = Math.max(1, frames.length)
+    canvas.width = columns
+    canvas.height = SPECTROGRAM_ROWS
+
+    const lut = getColormapLut(colormap)
+    const image = ctx.createImageData(columns, SPECTROGRAM_ROWS)
+    const floorDb = maxDb - SPECTROGRAM_DYNAMIC_RANGE_DB
+
+    for (let x = 0; x < frames.length; x++) {
+      const frame = frames[x]
+      for (let row = 0; row < SPECTROGRAM_ROWS; row++) {
+        const bin = logFrequencyBin(1 - row / SPECTROGRAM_ROWS, frame.length, spectrogram.sampleRate)
+        const level = Math.min(1, Math.max(0, (frame[bin] - floorDb) / SPECTROGRAM_DYNAMIC_RANGE_DB))
+        const value = Math.round(level * 255)
+        const offset = (row * columns + x) * 4
+        image.data[offset] = lut[value * 3]
+        image.data[offset + 1] = lut[value * 3 + 1]
+        image.data[offset + 2] = lut[value * 3 + 2]
+        image.data[offset + 3] = 255
+      }
+    }
+
+    ctx.putImageData(image, 0, 0)
+  }, [spectrogram, colormap])
+
+  return (
+    <div className={cn("relative w-full h-24 bg-muted/30 rounded-xl overflow-hidden", className)}>
+      {label && (
+        <span className="absolute top-1.5 left-2 text-[10px] font-medium uppercase tracking-wide text-white/80 pointer-events-none">
+          {label}
+        </span>
+      )}
+      <canvas ref={canvasRef} className="w-full h-full" style={{ display: "block" }} />
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Headphones, Square } from "lucide-react"
+
+interface SplitEarControlProps {
+  balance: number
+  onBalanceChange: (balance: number) => void
+  onPlay: () => void
+  onStop: () => void
+  isActive: boolean
+  disabled?: boolean
+}
+
+export function SplitEarControl({
+  balance,
+  onBalanceChange,
+  onPlay,
+  onStop,
+  isActive,
+  disabled = false,
+}: SplitEarControlProps) {
+  return (
+    <div className="bg-muted/30 rounded-xl p-4 space-y-3 text-left">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium flex items-center gap-2">
+            <Headphones className="h-4 w-4 text-primary" />
+            Split Ear
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">Both at once: original left, imitation right</p>
+        </div>
+        {isActive ? (
+          <Button size="sm" variant="outline" onClick={onStop}>
+            <Square className="mr-2 h-4 w-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" onClick={onPlay} disabled={disabled}>
+            <Headphones className="mr-2 h-4 w-4" />
+            Play Both
+          </Button>
+        )}
+      </div>
+      <Slider min={0} max={1} step={0.01} value={[balance]} onValueChange={([value]) => onBalanceChange(value)} />
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>Original (L)</span>
+        <span>Imitation (R)</span>
+      </div>
+    </div>
+  )
+}
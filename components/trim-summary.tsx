@@ -0,0 +1,32 @@
+"use client"
+
+import { Scissors } from "lucide-react"
+import type { TrimRegion } from "@/lib/audio/silence"
+
+interface TrimSummaryProps {
+  region: TrimRegion
+  sampleRate: number
+}
+
+export function TrimSummary({ region, sampleRate }: TrimSummaryProps) {
+  const leading = region.start / sampleRate
+  const trailing = (region.length - region.end) / sampleRate
+  const left = (region.start / region.length) * 100
+  const width = ((region.end - region.start) / region.length) * 100
+
+  if (region.start === 0 && region.end === region.length) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2 text-left">
+      <div className="relative h-3 w-full bg-muted rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 bg-primary/70 rounded-full" style={{ left: `${left}%`, width: `${width}%` }} />
+      </div>
+      <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+        <Scissors className="h-3 w-3" />
+        Trimmed {leading.toFixed(1)}s of leading and {trailing.toFixed(1)}s of trailing silence
+      </p>
+    </div>
+  )
+}
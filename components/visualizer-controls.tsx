@@ -0,0 +1,49 @@
+"use client"
+
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AudioWaveform, BarChart3 } from "lucide-react"
+import { COLORMAP_NAMES, type ColormapName } from "@/lib/audio/colormap"
+import type { VisualizerMode } from "@/lib/audio/spectrogram"
+
+interface VisualizerControlsProps {
+  mode: VisualizerMode
+  colormap: ColormapName
+  onModeChange: (mode: VisualizerMode) => void
+  onColormapChange: (colormap: ColormapName) => void
+}
+
+export function VisualizerControls({ mode, colormap, onModeChange, onColormapChange }: VisualizerControlsProps) {
+  return (
+    <div className="flex items-center justify-end gap-2 mt-2">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={mode}
+        onValueChange={(value) => value && onModeChange(value as VisualizerMode)}
+      >
+        <ToggleGroupItem value="bars" aria-label="Frequency bars">
+          <BarChart3 className="h-4 w-4" />
+        </ToggleGroupItem>
+        <ToggleGroupItem value="spectrogram" aria-label="Spectrogram">
+          <AudioWaveform className="h-4 w-4" />
+        </ToggleGroupItem>
+      </ToggleGroup>
+      {mode === "spectrogram" && (
+        <Select value={colormap} onValueChange={(value) => onColormapChange(value as ColormapName)}>
+          <SelectTrigger size="sm" className="capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {COLORMAP_NAMES.map((name) => (
+              <SelectItem key={name} value={name} className="capitalize">
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
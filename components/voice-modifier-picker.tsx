@@ -0,0 +1,55 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Dices, Wand2 } from "lucide-react"
+import { drawRandomModifier, VOICE_MODIFIER_IDS, VOICE_MODIFIERS, type VoiceModifierId } from "@/lib/audio/effects"
+
+interface VoiceModifierPickerProps {
+  value: VoiceModifierId
+  onChange: (modifier: VoiceModifierId) => void
+}
+
+export function VoiceModifierPicker({ value, onChange }: VoiceModifierPickerProps) {
+  return (
+    <div className="bg-muted/50 rounded-xl p-4 space-y-3 text-left">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="flex items-center gap-2">
+          <Wand2 className="h-4 w-4 text-primary" />
+          Round twist
+        </Label>
+        <Button size="sm" variant="outline" onClick={() => onChange(drawRandomModifier(value))}>
+          <Dices className="mr-2 h-4 w-4" />
+          Random
+        </Button>
+      </div>
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={value}
+        onValueChange={(next) => next && onChange(next as VoiceModifierId)}
+        className="w-full flex-wrap"
+      >
+        {VOICE_MODIFIER_IDS.map((id) => (
+          <ToggleGroupItem key={id} value={id} className="px-3">
+            {VOICE_MODIFIERS[id].label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-xs text-muted-foreground">{VOICE_MODIFIERS[value].description}</p>
+    </div>
+  )
+}
+
+export function VoiceModifierBadge({ modifier }: { modifier: VoiceModifierId }) {
+  if (modifier === "none") return null
+  return (
+    <Badge variant="secondary" className="gap-1">
+      <Wand2 className="h-3 w-3" />
+      {VOICE_MODIFIERS[modifier].label}
+    </Badge>
+  )
+}
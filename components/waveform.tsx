@@ -0,0 +1,181 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useRef } from "react"
+import { cn } from "@/lib/utils"
+import { getPeaks } from "@/lib/audio/peaks"
+import { getBufferPosition, type PlaybackRegion, type PlaybackState } from "@/lib/audio/playback"
+
+interface WaveformProps {
+  buffer: AudioBuffer
+  audioContext?: AudioContext | null
+  playback?: PlaybackState | null
+  selection?: PlaybackRegion | null
+  onSelectionChange?: (selection: PlaybackRegion | null) => void
+  // Times in seconds drawn as tick marks; clicking between two of them reports that chunk
+  markers?: number[]
+  onChunkClick?: (chunk: PlaybackRegion) => void
+  label?: string
+  className?: string
+}
+
+// Drags shorter than this are treated as a click and clear the selection.
+const MIN_SELECTION_SECONDS = 0.05
+const MARKER_TICK_HEIGHT = 8
+
+// The stretch between the markers either side of `time`, bounded by the start and end of the clip
+function chunkAt(markers: number[], time: number, duration: number): PlaybackRegion {
+  let start = 0
+  let end = duration
+  for (const marker of markers) {
+    if (marker <= time) start = Math.max(start, marker)
+    else end = Math.min(end, marker)
+  }
+  return { start, end }
+}
+
+export function Waveform({
+  buffer,
+  audioContext,
+  playback,
+  selection,
+  onSelectionChange,
+  markers,
+  onChunkClick,
+  label,
+  className,
+}: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const animationRef = useRef<number | null>(null)
+  const dragStartRef = useRef<number | null>(null)
+  const peaks = useMemo(() => getPeaks(buffer), [buffer])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    const resizeCanvas = () => {
+      const rect = canvas.getBoundingClientRect()
+      canvas.width = rect.width * window.devicePixelRatio
+      canvas.height = rect.height * window.devicePixelRatio
+      ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0)
+    }
+
+    resizeCanvas()
+    window.addEventListener("resize", resizeCanvas)
+
+    const draw = () => {
+      const rect = canvas.getBoundingClientRect()
+      const width = rect.width
+      const height = rect.height
+      const mid = height / 2
+      const buckets = peaks.length / 2
+
+      ctx.clearRect(0, 0, width, height)
+
+      if (selection) {
+        const x1 = (selection.start / buffer.duration) * width
+        const x2 = (selection.end / buffer.duration) * width
+        ctx.fillStyle = `oklch(0.7 0.2 320 / 0.15)`
+        ctx.fillRect(x1, 0, x2 - x1, height)
+      }
+
+      ctx.fillStyle = `oklch(0.7 0.2 320)`
+      for (let x = 0; x < width; x++) {
+        const b = Math.min(buckets - 1, Math.floor((x / width) * buckets))
+        const min = peaks[b * 2]
+        const max = peaks[b * 2 + 1]
+        const top = mid - max * mid * 0.9
+        const bottom = mid - min * mid * 0.9
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top))
+      }
+
+      if (markers) {
+        ctx.fillStyle = `oklch(0.85 0.15 85 / 0.8)`
+        for (const marker of markers) {
+          const x = Math.round((marker / buffer.duration) * width)
+          ctx.fillRect(x, 0, 1, MARKER_TICK_HEIGHT)
+          ctx.fillRect(x, height - MARKER_TICK_HEIGHT, 1, MARKER_TICK_HEIGHT)
+        }
+      }
+
+      const position = playback && audioContext ? getBufferPosition(playback, buffer, audioContext.currentTime) : null
+      if (position !== null) {
+        const x = (position / buffer.duration) * width
+        ctx.fillStyle = `oklch(0.95 0 0)`
+        ctx.fillRect(x - 1, 0, 2, height)
+      }
+
+      animationRef.current = requestAnimationFrame(draw)
+    }
+
+    draw()
+
+    return () => {
+      window.removeEventListener("resize", resizeCanvas)
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current)
+      }
+    }
+  }, [buffer, peaks, playback, audioContext, selection, markers])
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    return ratio * buffer.duration
+  }
+
+  const interactive = Boolean(onSelectionChange || onChunkClick)
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!interactive) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = timeAt(e)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onSelectionChange || dragStartRef.current === null) return
+    const current = timeAt(e)
+    const start = Math.min(dragStartRef.current, current)
+    const end = Math.max(dragStartRef.current, current)
+    onSelectionChange(end - start >= MIN_SELECTION_SECONDS ? { start, end } : null)
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!interactive || dragStartRef.current === null) return
+    const time = timeAt(e)
+    if (Math.abs(time - dragStartRef.current) < MIN_SELECTION_SECONDS) {
+      onSelectionChange?.(null)
+      if (onChunkClick && markers && markers.length > 0) {
+        onChunkClick(chunkAt(markers, time, buffer.duration))
+      }
+    }
+    dragStartRef.current = null
+  }
+
+  return (
+    <div className={cn("relative w-full h-24 bg-muted/30 rounded-xl overflow-hidden", className)}>
+      {label && (
+        <span className="absolute top-1.5 left-2 text-[10px] font-medium uppercase tracking-wide text-muted-foreground pointer-events-none">
+          {label}
+        </span>
+      )}
+      <canvas
+        ref={canvasRef}
+        className={cn(
+          "w-full h-full touch-none",
+          onSelectionChange ? "cursor-crosshair" : onChunkClick && "cursor-pointer",
+        )}
+        style={{ display: "block" }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => (dragStartRef.current = null)}
+      />
+    </div>
+  )
+}
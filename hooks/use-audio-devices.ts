@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from "react"
+import { supportsOutputSelection } from "@/lib/audio/output-device"
+
+const INPUT_STORAGE_KEY = "rev3rse:input-device"
+const OUTPUT_STORAGE_KEY = "rev3rse:output-device"
+
+export interface AudioDeviceOption {
+  deviceId: string
+  label: string
+}
+
+function readStoredId(key: string): string {
+  try {
+    return localStorage.getItem(key) ?? ""
+  } catch {
+    return ""
+  }
+}
+
+function storeId(key: string, value: string) {
+  try {
+    if (value) {
+      localStorage.setItem(key, value)
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch {
+    // Storage can be unavailable in private browsing; the choice just won't persist
+  }
+}
+
+function toOptions(devices: MediaDeviceInfo[], kind: MediaDeviceKind): AudioDeviceOption[] {
+  return devices
+    .filter((device) => device.kind === kind && device.deviceId !== "default" && device.deviceId !== "")
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `${kind === "audioinput" ? "Microphone" : "Speaker"} ${index + 1}`,
+    }))
+}
+
+export function useAudioDevices() {
+  const [inputs, setInputs] = useState<AudioDeviceOption[]>([])
+  const [outputs, setOutputs] = useState<AudioDeviceOption[]>([])
+  const [inputId, setInputIdState] = useState("")
+  const [outputId, setOutputIdState] = useState("")
+  const [canSelectOutput, setCanSelectOutput] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    const nextInputs = toOptions(devices, "audioinput")
+    const nextOutputs = toOptions(devices, "audiooutput")
+    setInputs(nextInputs)
+    setOutputs(nextOutputs)
+    // Fall back to the default device when a remembered one has been unplugged. Before permission is
+    // granted browsers hide device IDs, so an empty list says nothing about what is plugged in.
+    if (nextInputs.length > 0) {
+      setInputIdState((current) => (nextInputs.some((d) => d.deviceId === current) ? current : ""))
+    }
+    if (nextOutputs.length > 0) {
+      setOutputIdState((current) => (nextOutputs.some((d) => d.deviceId === current) ? current : ""))
+    }
+  }, [])
+
+  useEffect(() => {
+    setInputIdState(readStoredId(INPUT_STORAGE_KEY))
+    setOutputIdState(readStoredId(OUTPUT_STORAGE_KEY))
+    setCanSelectOutput(supportsOutputSelection())
+    refresh()
+
+    if (!navigator.mediaDevices) return
+    navigator.mediaDevices.addEventListener("devicechange", refresh)
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh)
+  }, [refresh])
+
+  const setInputId = useCallback((deviceId: string) => {
+    setInputIdState(deviceId)
+    storeId(INPUT_STORAGE_KEY, deviceId)
+  }, [])
+
+  const setOutputId = useCallback((deviceId: string) => {
+    setOutputIdState(deviceId)
+    storeId(OUTPUT_STORAGE_KEY, deviceId)
+  }, [])
+
+  return { inputs, outputs, inputId, outputId, canSelectOutput, setInputId, setOutputId, refresh }
+}
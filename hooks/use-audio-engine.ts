@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react"
+import { WebAudioEngine, type AudioEngine } from "@/lib/audio/engine"
+
+const createWebAudioEngine = (): AudioEngine => new WebAudioEngine()
+
+// Owns one engine for the component's lifetime and mirrors its state into React.
+// Pass a factory to back the component with a different implementation, e.g. a fake.
+export function useAudioEngine(createEngine: () => AudioEngine = createWebAudioEngine) {
+  const [engine] = useState(createEngine)
+  const [state, setState] = useState(engine.state)
+
+  useEffect(() => {
+    setState(engine.state)
+    const unsubscribe = engine.on("state", setState)
+    return () => {
+      unsubscribe()
+      engine.dispose()
+    }
+  }, [engine])
+
+  return { engine, ...state }
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react"
+import { createAudioProcessor } from "@/lib/audio/processor"
+
+// One processing worker per component, torn down on unmount
+export function useAudioProcessor() {
+  const [processor] = useState(createAudioProcessor)
+
+  useEffect(() => () => processor.dispose(), [processor])
+
+  return processor
+}
@@ -0,0 +1,95 @@
+import { SILENCE_RMS, computeEnvelope, computeMfcc, cosineDistance, type MfccOptions } from "@/lib/audio/similarity"
+
+export interface AlignedSegment {
+  start: number
+  end: number
+  distance: number
+}
+
+export interface Alignment {
+  // Seconds the candidate starts after the reference on the shared time axis (negative: before)
+  lag: number
+  referenceStart: number
+  candidateStart: number
+  duration: number
+  segments: AlignedSegment[]
+}
+
+const HOP_DURATION = 0.01
+// Aligned frames closer than this cosine distance count as matching.
+const MATCH_DISTANCE = 0.35
+// Runs of matching frames shorter than this are noise and not highlighted.
+const MIN_SEGMENT_DURATION = 0.08
+
+function crossCorrelationLag(a: Float32Array, b: Float32Array): number {
+  const mean = (x: Float32Array) => x.reduce((sum, v) => sum + v, 0) / Math.max(1, x.length)
+  const meanA = mean(a)
+  const meanB = mean(b)
+
+  let bestLag = 0
+  let bestScore = Number.NEGATIVE_INFINITY
+  for (let lag = -(b.length - 1); lag < a.length; lag++) {
+    let score = 0
+    const from = Math.max(0, lag)
+    const to = Math.min(a.length, b.length + lag)
+    for (let i = from; i < to; i++) {
+      score += (a[i] - meanA) * (b[i - lag] - meanB)
+    }
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+  return bestLag
+}
+
+// Aligns two clips on a shared time axis by cross-correlating their energy envelopes,
+// then marks the stretches where the aligned MFCC frames match.
+export function alignClips(reference: Float32Array, candidate: Float32Array, sampleRate: number): Alignment {
+  const options: MfccOptions = { hopDuration: HOP_DURATION, skipSilence: false }
+  const envelopeA = computeEnvelope(reference, sampleRate, options)
+  const envelopeB = computeEnvelope(candidate, sampleRate, options)
+  const lagFrames = crossCorrelationLag(envelopeA, envelopeB)
+  const lag = lagFrames * HOP_DURATION
+
+  const referenceStart = Math.max(0, -lag)
+  const candidateStart = Math.max(0, lag)
+  const duration = Math.max(
+    referenceStart + reference.length / sampleRate,
+    candidateStart + candidate.length / sampleRate,
+  )
+
+  const mfccA = computeMfcc(reference, sampleRate, options)
+  const mfccB = computeMfcc(candidate, sampleRate, options)
+
+  const segments: AlignedSegment[] = []
+  let runStart = -1
+  let runDistance = 0
+  const closeRun = (endFrame: number) => {
+    const length = endFrame - runStart
+    if (length * HOP_DURATION >= MIN_SEGMENT_DURATION) {
+      segments.push({
+        start: referenceStart + runStart * HOP_DURATION,
+        end: referenceStart + endFrame * HOP_DURATION,
+        distance: runDistance / length,
+      })
+    }
+    runStart = -1
+    runDistance = 0
+  }
+
+  for (let i = 0; i < mfccA.length; i++) {
+    const j = i - lagFrames
+    const voiced = j >= 0 && j < mfccB.length && envelopeA[i] >= SILENCE_RMS && envelopeB[j] >= SILENCE_RMS
+    const distance = voiced ? cosineDistance(mfccA[i], mfccB[j]) : Number.POSITIVE_INFINITY
+    if (distance <= MATCH_DISTANCE) {
+      if (runStart < 0) runStart = i
+      runDistance += distance
+    } else if (runStart >= 0) {
+      closeRun(i)
+    }
+  }
+  if (runStart >= 0) closeRun(mfccA.length)
+
+  return { lag, referenceStart, candidateStart, duration, segments }
+}
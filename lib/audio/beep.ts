@@ -0,0 +1,20 @@
+// Schedules a short sine beep with a tiny attack/release ramp so it doesn't click.
+export function scheduleBeep(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  start: number,
+  frequency: number,
+  duration: number,
+  level = 0.2,
+) {
+  const oscillator = context.createOscillator()
+  oscillator.frequency.value = frequency
+  const gain = context.createGain()
+  gain.gain.setValueAtTime(0, start)
+  gain.gain.linearRampToValueAtTime(level, start + 0.01)
+  gain.gain.setValueAtTime(level, start + duration - 0.01)
+  gain.gain.linearRampToValueAtTime(0, start + duration)
+  oscillator.connect(gain).connect(destination)
+  oscillator.start(start)
+  oscillator.stop(start + duration)
+}
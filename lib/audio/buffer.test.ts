@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { mixChannels, toMono } from "@/lib/audio/buffer"
+
+describe("mixChannels", () => {
+  it("returns a lone channel untouched", () => {
+    const channel = Float32Array.from([0.1, -0.2])
+    expect(mixChannels([channel])).toBe(channel)
+  })
+
+  it("averages several channels sample by sample", () => {
+    const mono = mixChannels([Float32Array.from([1, 0, -1]), Float32Array.from([0, 0.5, 1])])
+    expect(Array.from(mono)).toEqual([0.5, 0.25, 0])
+  })
+})
+
+describe("toMono", () => {
+  it("mixes the channels of an AudioBuffer-like object", () => {
+    const channels = [Float32Array.from([0.5, 0.5]), Float32Array.from([-0.5, 0.25])]
+    const buffer = { numberOfChannels: 2, getChannelData: (channel: number) => channels[channel] }
+    expect(Array.from(toMono(buffer))).toEqual([0, 0.375])
+  })
+})
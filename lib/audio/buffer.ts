@@ -0,0 +1,63 @@
+// Averages a set of equal-length channels into a single mono channel. A lone channel is returned as is.
+export function mixChannels(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0]
+  }
+
+  const mono = new Float32Array(channels[0]?.length ?? 0)
+  for (const data of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[i]
+    }
+  }
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] /= channels.length
+  }
+  return mono
+}
+
+// Averages every channel of an AudioBuffer-like object into a single mono channel.
+export function toMono(buffer: Pick<AudioBuffer, "numberOfChannels" | "getChannelData">): Float32Array {
+  return mixChannels(Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel)))
+}
+
+// Copies the [start, end) sample range of every channel into a new buffer.
+export function sliceAudioBuffer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+): AudioBuffer {
+  const length = Math.max(1, end - start)
+  const sliced = context.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    sliced.copyToChannel(buffer.getChannelData(channel).subarray(start, start + length), channel)
+  }
+  return sliced
+}
+
+export function getChannels(buffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+}
+
+// Owned copies of the channel data, safe to transfer to a worker without detaching the buffer's storage
+export function copyChannels(buffer: AudioBuffer): Float32Array[] {
+  return getChannels(buffer).map((data) => data.slice())
+}
+
+export function createAudioBuffer(
+  context: BaseAudioContext,
+  channels: Float32Array[],
+  sampleRate: number,
+): AudioBuffer {
+  const buffer = context.createBuffer(channels.length, Math.max(1, channels[0]?.length ?? 0), sampleRate)
+  channels.forEach((data, channel) => buffer.getChannelData(channel).set(data))
+  return buffer
+}
+
+export function toMonoBuffer(context: BaseAudioContext, buffer: AudioBuffer): AudioBuffer {
+  if (buffer.numberOfChannels === 1) {
+    return buffer
+  }
+  return createAudioBuffer(context, [toMono(buffer)], buffer.sampleRate)
+}
@@ -0,0 +1,64 @@
+export interface CaptureSettings {
+  echoCancellation: boolean
+  noiseSuppression: boolean
+  autoGainControl: boolean
+  // null lets the browser pick its native rate
+  sampleRate: number | null
+}
+
+export type CapturePresetId = "voice" | "raw"
+
+interface CapturePreset {
+  label: string
+  description: string
+  settings: CaptureSettings
+}
+
+export const CAPTURE_PRESETS: Record<CapturePresetId, CapturePreset> = {
+  voice: {
+    label: "Voice",
+    description: "Browser cleanup on: echo cancellation, noise suppression and auto gain",
+    settings: { echoCancellation: true, noiseSuppression: true, autoGainControl: true, sampleRate: 44100 },
+  },
+  raw: {
+    label: "Raw",
+    description: "All processing off, so consonants survive the reversal intact",
+    settings: { echoCancellation: false, noiseSuppression: false, autoGainControl: false, sampleRate: 48000 },
+  },
+}
+
+// "auto" records with MediaRecorder and falls back to raw PCM from an AudioWorklet when that
+// is unsupported or its output can't be decoded; "pcm" skips encoding entirely for the lowest latency.
+export type CaptureBackend = "auto" | "media-recorder" | "pcm"
+export type ActiveCaptureBackend = Exclude<CaptureBackend, "auto">
+
+export const CAPTURE_BACKENDS: Record<CaptureBackend, string> = {
+  auto: "Automatic",
+  "media-recorder": "MediaRecorder",
+  pcm: "Raw PCM (lowest latency)",
+}
+
+export const CAPTURE_SAMPLE_RATES = [16000, 22050, 44100, 48000]
+
+export function findCapturePreset(settings: CaptureSettings): CapturePresetId | null {
+  const match = (Object.keys(CAPTURE_PRESETS) as CapturePresetId[]).find((id) => {
+    const preset = CAPTURE_PRESETS[id].settings
+    return (
+      preset.echoCancellation === settings.echoCancellation &&
+      preset.noiseSuppression === settings.noiseSuppression &&
+      preset.autoGainControl === settings.autoGainControl &&
+      preset.sampleRate === settings.sampleRate
+    )
+  })
+  return match ?? null
+}
+
+export function buildAudioConstraints(settings: CaptureSettings, deviceId?: string): MediaTrackConstraints {
+  return {
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    ...(settings.sampleRate ? { sampleRate: settings.sampleRate } : {}),
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  }
+}
@@ -0,0 +1,54 @@
+export type ColormapName = "magma" | "viridis" | "grayscale"
+
+export const COLORMAP_NAMES: ColormapName[] = ["magma", "viridis", "grayscale"]
+
+type Rgb = [number, number, number]
+
+// Coarse stops sampled from the matplotlib maps; intermediate values are linearly interpolated.
+const COLORMAP_STOPS: Record<ColormapName, Rgb[]> = {
+  magma: [
+    [0, 0, 4],
+    [40, 11, 84],
+    [101, 21, 110],
+    [159, 42, 99],
+    [212, 72, 66],
+    [245, 125, 21],
+    [250, 193, 39],
+    [252, 253, 191],
+  ],
+  viridis: [
+    [68, 1, 84],
+    [70, 50, 126],
+    [54, 92, 141],
+    [39, 127, 142],
+    [31, 161, 135],
+    [74, 193, 109],
+    [160, 218, 57],
+    [253, 231, 37],
+  ],
+  grayscale: [
+    [0, 0, 0],
+    [255, 255, 255],
+  ],
+}
+
+const lutCache = new Map<ColormapName, Uint8ClampedArray>()
+
+// 256-entry RGB lookup table for the given colormap.
+export function getColormapLut(name: ColormapName): Uint8ClampedArray {
+  const cached = lutCache.get(name)
+  if (cached) return cached
+
+  const stops = COLORMAP_STOPS[name]
+  const lut = new Uint8ClampedArray(256 * 3)
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1)
+    const index = Math.min(stops.length - 2, Math.floor(position))
+    const t = position - index
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = stops[index][c] + (stops[index + 1][c] - stops[index][c]) * t
+    }
+  }
+  lutCache.set(name, lut)
+  return lut
+}
@@ -0,0 +1,134 @@
+import { copyChannels, createAudioBuffer } from "@/lib/audio/buffer"
+import { timeStretch } from "@/lib/audio/time-stretch"
+
+export type VoiceModifierId = "none" | "pitch-up" | "pitch-down" | "robot" | "echo"
+
+interface VoiceModifier {
+  label: string
+  description: string
+}
+
+export const VOICE_MODIFIERS: Record<VoiceModifierId, VoiceModifier> = {
+  none: { label: "None", description: "Just the reversed clip" },
+  "pitch-up": { label: "Chipmunk", description: "Pitched up a fifth" },
+  "pitch-down": { label: "Deep", description: "Pitched down a fourth" },
+  robot: { label: "Robot", description: "Ring-modulated into a metallic buzz" },
+  echo: { label: "Echo", description: "Bouncing around a small, echoey room" },
+}
+
+export const VOICE_MODIFIER_IDS = Object.keys(VOICE_MODIFIERS) as VoiceModifierId[]
+
+// Stretches channels in time without changing pitch; lets callers move the work off the main thread
+export type Stretcher = (channels: Float32Array[], sampleRate: number, rate: number) => Promise<Float32Array[]>
+
+const stretchInline: Stretcher = async (channels, sampleRate, rate) => timeStretch(channels, sampleRate, rate)
+
+const PITCH_RATIOS: Partial<Record<VoiceModifierId, number>> = {
+  "pitch-up": 1.5,
+  "pitch-down": 0.75,
+}
+const RING_FREQUENCY = 50
+const ECHO_DELAY = 0.22
+const ECHO_FEEDBACK = 0.45
+const ECHO_WET = 0.5
+const ECHO_TAIL = 1.5
+const ROOM_DURATION = 0.6
+const PEAK_CEILING = 0.98
+
+// Picks any modifier other than "none" and the one already in play
+export function drawRandomModifier(current: VoiceModifierId = "none", random = Math.random): VoiceModifierId {
+  const choices = VOICE_MODIFIER_IDS.filter((id) => id !== "none" && id !== current)
+  return choices[Math.floor(random() * choices.length)]
+}
+
+// Exponentially decaying noise: a cheap stand-in for a recorded room impulse response
+function createRoomImpulse(context: BaseAudioContext, duration: number): AudioBuffer {
+  const length = Math.max(1, Math.round(duration * context.sampleRate))
+  const impulse = context.createBuffer(1, length, context.sampleRate)
+  const data = impulse.getChannelData(0)
+  for (let i = 0; i < length; i++) {
+    data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3)
+  }
+  return impulse
+}
+
+// Feedback and reverb can push the mix past full scale; scale it back rather than clip on playback
+function limitPeak(buffer: AudioBuffer): AudioBuffer {
+  let peak = 0
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]))
+    }
+  }
+  if (peak <= PEAK_CEILING) return buffer
+
+  const gain = PEAK_CEILING / peak
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= gain
+    }
+  }
+  return buffer
+}
+
+// Renders the modifier over the clip with an OfflineAudioContext. Pitch shifts stretch the clip first
+// and then play it back faster or slower, so the result keeps the original duration.
+export async function renderVoiceModifier(
+  buffer: AudioBuffer,
+  modifier: VoiceModifierId,
+  stretch: Stretcher = stretchInline,
+): Promise<AudioBuffer> {
+  if (modifier === "none") {
+    return buffer
+  }
+
+  const { sampleRate, numberOfChannels } = buffer
+  const pitchRatio = PITCH_RATIOS[modifier]
+
+  if (pitchRatio) {
+    const stretched = await stretch(copyChannels(buffer), sampleRate, 1 / pitchRatio)
+    const length = Math.max(1, Math.ceil(stretched[0].length / pitchRatio))
+    const context = new OfflineAudioContext(numberOfChannels, length, sampleRate)
+    const source = context.createBufferSource()
+    source.buffer = createAudioBuffer(context, stretched, sampleRate)
+    source.playbackRate.value = pitchRatio
+    source.connect(context.destination)
+    source.start(0)
+    return context.startRendering()
+  }
+
+  const tail = modifier === "echo" ? ECHO_TAIL : 0
+  const context = new OfflineAudioContext(numberOfChannels, buffer.length + Math.round(tail * sampleRate), sampleRate)
+  const source = context.createBufferSource()
+  source.buffer = buffer
+
+  if (modifier === "robot") {
+    // Driving a zero gain with the carrier multiplies the voice by it: classic ring modulation
+    const carrier = context.createOscillator()
+    carrier.frequency.value = RING_FREQUENCY
+    const ring = context.createGain()
+    ring.gain.value = 0
+    carrier.connect(ring.gain)
+    source.connect(ring).connect(context.destination)
+    carrier.start(0)
+  } else {
+    const delay = context.createDelay(1)
+    delay.delayTime.value = ECHO_DELAY
+    const feedback = context.createGain()
+    feedback.gain.value = ECHO_FEEDBACK
+    const room = context.createConvolver()
+    room.buffer = createRoomImpulse(context, ROOM_DURATION)
+    const wet = context.createGain()
+    wet.gain.value = ECHO_WET
+
+    source.connect(context.destination)
+    source.connect(delay)
+    delay.connect(feedback).connect(delay)
+    delay.connect(room).connect(wet).connect(context.destination)
+  }
+
+  source.start(0)
+  return limitPeak(await context.startRendering())
+}
@@ -0,0 +1,526 @@
+import { scheduleBeep } from "@/lib/audio/beep"
+import { copyChannels, createAudioBuffer } from "@/lib/audio/buffer"
+import type { ActiveCaptureBackend, CaptureBackend } from "@/lib/audio/capture"
+import { measureLevels } from "@/lib/audio/loudness"
+import { applyOutputDevice } from "@/lib/audio/output-device"
+import { loadPcmCaptureWorklet, startPcmCapture, supportsPcmCapture } from "@/lib/audio/pcm-capture"
+import type { PlaybackRegion, PlaybackState } from "@/lib/audio/playback"
+import { createAudioProcessor, type AudioProcessor, type RunOptions } from "@/lib/audio/processor"
+import type { ReversalModeId } from "@/lib/audio/reversal"
+
+export interface PlayOptions {
+  region?: PlaybackRegion
+  loop?: boolean
+  // With `loop`, stops after this many passes through the region instead of looping until stop()
+  loopCount?: number
+  // Plays a second buffer alongside: the main buffer hard left, the companion hard right. The companion
+  // starts at `companionOffset` (default: the region start); a negative offset delays it by that much.
+  splitEar?: { companion: AudioBuffer; balance: number; companionOffset?: number }
+}
+
+export interface ReverseOptions extends RunOptions {
+  mode?: ReversalModeId
+  // Undo the mode rather than apply it, e.g. to turn an imitation back around
+  inverse?: boolean
+}
+
+export interface AudioEngineState {
+  isRecording: boolean
+  isPlaying: boolean
+  // Taps whatever is currently audible or being captured, for meters and visualizers
+  analyser: AnalyserNode | null
+  playback: PlaybackState | null
+  // Which backend captured the current or most recent take
+  captureBackend: ActiveCaptureBackend | null
+  // Backends record() can use on the open input; null until an input has been opened
+  availableBackends: ActiveCaptureBackend[] | null
+}
+
+export interface LevelReading {
+  samples: Float32Array
+  time: number
+  peakDb: number
+  rmsDb: number
+}
+
+export interface AudioEngineEvents {
+  level: LevelReading
+  ended: void
+  error: Error
+  state: AudioEngineState
+}
+
+export type AudioEngineListener<K extends keyof AudioEngineEvents> = (payload: AudioEngineEvents[K]) => void
+
+// Everything the game needs from the audio stack. WebAudioEngine is the browser implementation;
+// anything else that honours this contract (e.g. an in-memory fake) can stand in for it.
+export interface AudioEngine {
+  readonly state: AudioEngineState
+  // The running context, if one has been created yet; its clock drives playhead drawing
+  readonly context: AudioContext | null
+  getContext(): AudioContext
+  // Opens the microphone and starts emitting level events; resolves with the settings the browser applied
+  open(constraints: MediaTrackConstraints): Promise<MediaTrackSettings | null>
+  // Starts capturing from the open input and resolves with the finished take once stop() is called
+  record(backend?: CaptureBackend): Promise<AudioBuffer>
+  // Finishes any recording in progress and stops playback
+  stop(): void
+  // Discards any recording in progress and releases the microphone
+  cancel(): void
+  play(buffer: AudioBuffer, options?: PlayOptions): void
+  setSplitEarBalance(balance: number): void
+  // Scrambles the clip with a reversal mode, off the main thread when the clip is long enough to matter
+  reverse(buffer: AudioBuffer, options?: ReverseOptions): Promise<AudioBuffer>
+  decode(data: ArrayBuffer): Promise<AudioBuffer>
+  beep(frequency: number, duration: number): void
+  setOutputDevice(deviceId: string): void
+  on<K extends keyof AudioEngineEvents>(event: K, listener: AudioEngineListener<K>): () => void
+  dispose(): void
+}
+
+export const IDLE_ENGINE_STATE: AudioEngineState = {
+  isRecording: false,
+  isPlaying: false,
+  analyser: null,
+  playback: null,
+  captureBackend: null,
+  availableBackends: null,
+}
+
+const RECORDER_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus", "audio/ogg"]
+const LEVEL_INTERVAL = 20
+// Small scheduling lead so both split-ear sources start on the same audio frame
+const SYNC_START_DELAY = 0.05
+
+// Equal-power crossfade: 0 is only the left ear, 1 is only the right ear
+function crossfadeGains(balance: number): [number, number] {
+  return [Math.cos((balance * Math.PI) / 2), Math.sin((balance * Math.PI) / 2)]
+}
+
+function pickRecorderMimeType(): string {
+  return RECORDER_MIME_TYPES.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) ?? ""
+}
+
+function supportsMediaRecorder(): boolean {
+  return typeof MediaRecorder !== "undefined"
+}
+
+// One running capture; stop() resolves with the finished take
+interface CaptureTake {
+  backend: ActiveCaptureBackend
+  stop(): Promise<AudioBuffer>
+  cancel(): void
+}
+
+interface ActiveRecording {
+  primary: CaptureTake
+  fallback: CaptureTake | null
+  resolve: (buffer: AudioBuffer) => void
+  reject: (error: unknown) => void
+}
+
+export class WebAudioEngine implements AudioEngine {
+  private audioContext: AudioContext | null = null
+  private outputDeviceId = ""
+  private listeners = new Map<keyof AudioEngineEvents, Set<(payload: never) => void>>()
+  private currentState: AudioEngineState = IDLE_ENGINE_STATE
+
+  private stream: MediaStream | null = null
+  private inputSource: MediaStreamAudioSourceNode | null = null
+  private pcmReady = false
+  private preferPcm = false
+  private inputAnalyser: AnalyserNode | null = null
+  private levelTimer: ReturnType<typeof setInterval> | null = null
+  private recording: ActiveRecording | null = null
+
+  private source: AudioBufferSourceNode | null = null
+  private companion: AudioBufferSourceNode | null = null
+  private splitEarGains: { left: GainNode; right: GainNode } | null = null
+
+  constructor(private readonly processor: AudioProcessor = createAudioProcessor()) {}
+
+  get state(): AudioEngineState {
+    return this.currentState
+  }
+
+  get context(): AudioContext | null {
+    return this.audioContext
+  }
+
+  getContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext()
+      if (this.outputDeviceId) {
+        applyOutputDevice(this.audioContext, this.outputDeviceId)
+      }
+    }
+    if (this.audioContext.state === "suspended") {
+      this.audioContext.resume()
+    }
+    return this.audioContext
+  }
+
+  setOutputDevice(deviceId: string) {
+    this.outputDeviceId = deviceId
+    if (this.audioContext) {
+      applyOutputDevice(this.audioContext, deviceId)
+    }
+  }
+
+  on<K extends keyof AudioEngineEvents>(event: K, listener: AudioEngineListener<K>): () => void {
+    let listeners = this.listeners.get(event)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(event, listeners)
+    }
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  private emit<K extends keyof AudioEngineEvents>(event: K, payload: AudioEngineEvents[K]) {
+    this.listeners.get(event)?.forEach((listener) => (listener as AudioEngineListener<K>)(payload))
+  }
+
+  private setState(update: Partial<AudioEngineState>) {
+    this.currentState = { ...this.currentState, ...update }
+    this.emit("state", this.currentState)
+  }
+
+  async open(constraints: MediaTrackConstraints): Promise<MediaTrackSettings | null> {
+    this.cancel()
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints })
+    const audioContext = this.getContext()
+
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = 256
+    const source = audioContext.createMediaStreamSource(stream)
+    source.connect(analyser)
+
+    this.stream = stream
+    this.inputSource = source
+    this.inputAnalyser = analyser
+    this.setState({ analyser })
+
+    const track = stream.getAudioTracks()[0]
+    track?.addEventListener("ended", () => {
+      if (this.stream === stream) {
+        this.emit("error", new Error("The microphone was disconnected."))
+        this.cancel()
+      }
+    })
+
+    const samples = new Float32Array(analyser.fftSize)
+    this.levelTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      this.emit("level", { samples, time: audioContext.currentTime, ...measureLevels(samples) })
+    }, LEVEL_INTERVAL)
+
+    // Loaded up front so record() can start the worklet without waiting
+    if (supportsPcmCapture()) {
+      this.pcmReady = await loadPcmCaptureWorklet(audioContext).then(
+        () => true,
+        (error) => {
+          console.error("Raw PCM capture unavailable:", error)
+          return false
+        },
+      )
+    }
+    this.setState({ availableBackends: this.listAvailableBackends() })
+
+    return track?.getSettings() ?? null
+  }
+
+  record(backend: CaptureBackend = "auto"): Promise<AudioBuffer> {
+    const stream = this.stream
+    const source = this.inputSource
+    if (!stream || !source) {
+      return Promise.reject(new Error("Open an input before recording."))
+    }
+    if (this.recording) {
+      return Promise.reject(new Error("A recording is already in progress."))
+    }
+    // A backend picked in settings may not work here (e.g. the worklet failed to load); rather than fail
+    // every take, record with whatever is available and let captureBackend report what was used
+    let requested = backend
+    if (requested !== "auto" && !this.listAvailableBackends().includes(requested)) {
+      console.warn(`The ${requested} capture backend is unavailable, choosing one automatically`)
+      requested = "auto"
+    }
+
+    // Auto prefers MediaRecorder, but keeps a raw PCM take running alongside in case decoding fails
+    const useRecorder =
+      requested === "media-recorder" || (requested === "auto" && supportsMediaRecorder() && !this.preferPcm)
+    const usePcm = requested === "pcm" || (requested === "auto" && this.pcmReady)
+
+    return new Promise((resolve, reject) => {
+      const recorderTake = useRecorder ? this.startRecorderTake(stream) : null
+      const pcmTake = usePcm ? this.startPcmTake(source) : null
+      const primary = recorderTake ?? pcmTake
+      if (!primary) {
+        reject(new Error("This browser can't record audio."))
+        return
+      }
+      this.recording = { primary, fallback: recorderTake ? pcmTake : null, resolve, reject }
+      this.setState({ isRecording: true, captureBackend: primary.backend })
+    })
+  }
+
+  private listAvailableBackends(): ActiveCaptureBackend[] {
+    const backends: ActiveCaptureBackend[] = []
+    if (supportsMediaRecorder()) backends.push("media-recorder")
+    if (this.pcmReady) backends.push("pcm")
+    return backends
+  }
+
+  private startRecorderTake(stream: MediaStream): CaptureTake {
+    const mimeType = pickRecorderMimeType()
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : {})
+    const chunks: Blob[] = []
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve()
+    })
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data)
+      }
+    }
+    recorder.onerror = () => {
+      this.emit("error", new Error("The recorder stopped unexpectedly."))
+    }
+    recorder.start(100)
+
+    return {
+      backend: "media-recorder",
+      stop: async () => {
+        if (recorder.state !== "inactive") recorder.stop()
+        await stopped
+        const blob = new Blob(chunks, { type: mimeType || "audio/webm" })
+        return this.decode(await blob.arrayBuffer())
+      },
+      cancel: () => {
+        if (recorder.state !== "inactive") recorder.stop()
+      },
+    }
+  }
+
+  private startPcmTake(source: AudioNode): CaptureTake {
+    const audioContext = this.getContext()
+    const capture = startPcmCapture(audioContext, source)
+    return {
+      backend: "pcm",
+      stop: async () => createAudioBuffer(audioContext, await capture.stop(), audioContext.sampleRate),
+      cancel: () => capture.cancel(),
+    }
+  }
+
+  private async finishRecording({ primary, fallback }: ActiveRecording): Promise<AudioBuffer> {
+    // Both takes stop together so the fallback covers exactly the same span
+    const primaryTake = primary.stop()
+    const fallbackTake = fallback?.stop()
+    fallbackTake?.catch(() => {})
+    try {
+      return await primaryTake
+    } catch (error) {
+      if (!fallbackTake) throw error
+      console.error("Couldn't decode the compressed recording, using the raw PCM take instead:", error)
+      // Decoding is likely to keep failing in this browser, so skip straight to PCM from now on
+      this.preferPcm = true
+      this.setState({ captureBackend: "pcm" })
+      return fallbackTake
+    } finally {
+      this.releaseInput()
+    }
+  }
+
+  stop() {
+    const recording = this.recording
+    if (recording) {
+      this.recording = null
+      this.setState({ isRecording: false })
+      this.finishRecording(recording).then(recording.resolve, recording.reject)
+    }
+    this.stopPlayback()
+  }
+
+  cancel() {
+    const recording = this.recording
+    if (recording) {
+      this.recording = null
+      recording.primary.cancel()
+      recording.fallback?.cancel()
+      recording.reject(new DOMException("The recording was cancelled.", "AbortError"))
+      this.setState({ isRecording: false })
+    }
+    this.releaseInput()
+  }
+
+  private releaseInput() {
+    if (this.levelTimer) {
+      clearInterval(this.levelTimer)
+      this.levelTimer = null
+    }
+    this.stream?.getTracks().forEach((track) => track.stop())
+    this.stream = null
+    this.inputSource?.disconnect()
+    this.inputSource = null
+    if (this.inputAnalyser && this.currentState.analyser === this.inputAnalyser) {
+      this.setState({ analyser: null })
+    }
+    this.inputAnalyser = null
+  }
+
+  private stopPlayback() {
+    const wasPlaying = this.source !== null
+    const sources = [this.source, this.companion]
+    // Clear first so the stopped sources' onended handlers see they've been superseded
+    this.source = null
+    this.companion = null
+    this.splitEarGains = null
+    for (const source of sources) {
+      if (!source) continue
+      try {
+        source.stop()
+      } catch {
+        // Source may already be stopped
+      }
+    }
+    if (wasPlaying) {
+      this.setState({ isPlaying: false, analyser: null, playback: null })
+    }
+  }
+
+  play(buffer: AudioBuffer, options: PlayOptions = {}) {
+    const audioContext = this.getContext()
+    this.stopPlayback()
+
+    if (audioContext.state === "suspended") {
+      audioContext.resume().then(
+        () => this.startSources(audioContext, buffer, options),
+        (error) => this.emit("error", error instanceof Error ? error : new Error(String(error))),
+      )
+    } else {
+      this.startSources(audioContext, buffer, options)
+    }
+  }
+
+  private startSources(audioContext: AudioContext, buffer: AudioBuffer, options: PlayOptions) {
+    const offset = options.region?.start ?? 0
+    const end = options.region?.end ?? buffer.duration
+    const loop = options.loop ?? false
+
+    const createSource = (sourceBuffer: AudioBuffer) => {
+      const node = audioContext.createBufferSource()
+      node.buffer = sourceBuffer
+      if (loop) {
+        node.loop = true
+        node.loopStart = offset
+        node.loopEnd = end
+      }
+      return node
+    }
+
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = 256
+    analyser.connect(audioContext.destination)
+
+    const source = createSource(buffer)
+    let companion: AudioBufferSourceNode | null = null
+
+    if (options.splitEar) {
+      const connectPanned = (node: AudioBufferSourceNode, pan: number, level: number) => {
+        const gain = audioContext.createGain()
+        gain.gain.value = level
+        const panner = audioContext.createStereoPanner()
+        panner.pan.value = pan
+        node.connect(gain).connect(panner).connect(analyser)
+        return gain
+      }
+
+      companion = createSource(options.splitEar.companion)
+      const [leftLevel, rightLevel] = crossfadeGains(options.splitEar.balance)
+      this.splitEarGains = {
+        left: connectPanned(source, -1, leftLevel),
+        right: connectPanned(companion, 1, rightLevel),
+      }
+    } else {
+      source.connect(analyser)
+    }
+
+    const companionOffset = options.splitEar?.companionOffset ?? offset
+    const companionDelay = Math.max(0, -companionOffset)
+
+    // Whichever source finishes last decides when playback has ended
+    const master =
+      companion &&
+      options.splitEar &&
+      companionDelay + options.splitEar.companion.duration - Math.max(0, companionOffset) > end - offset
+        ? companion
+        : source
+    const follower = master === source ? companion : source
+
+    master.onended = () => {
+      // A newer source has already taken over; don't clobber its state
+      if (this.source !== master) return
+      this.source = null
+      this.companion = null
+      this.splitEarGains = null
+      this.setState({ isPlaying: false, analyser: null, playback: null })
+      this.emit("ended", undefined)
+    }
+
+    this.source = master
+    this.companion = follower
+    const when = companion ? audioContext.currentTime + SYNC_START_DELAY : 0
+    // For a looping source the duration covers every pass, so a loop count becomes a total play time;
+    // undefined leaves a loop running until stop()
+    const loopDuration = loop && options.loopCount !== undefined ? (end - offset) * options.loopCount : undefined
+    source.start(when, offset, loop ? loopDuration : end - offset)
+    companion?.start(when + companionDelay, Math.max(0, companionOffset), loopDuration)
+
+    this.setState({
+      isPlaying: true,
+      analyser,
+      playback: {
+        buffer,
+        startedAt: when || audioContext.currentTime,
+        offset,
+        end,
+        loop,
+        companion: options.splitEar?.companion,
+        companionOffset: options.splitEar ? companionOffset : undefined,
+      },
+    })
+  }
+
+  setSplitEarBalance(balance: number) {
+    if (!this.splitEarGains || !this.audioContext) return
+    const [left, right] = crossfadeGains(balance)
+    this.splitEarGains.left.gain.setTargetAtTime(left, this.audioContext.currentTime, 0.02)
+    this.splitEarGains.right.gain.setTargetAtTime(right, this.audioContext.currentTime, 0.02)
+  }
+
+  async reverse(
+    buffer: AudioBuffer,
+    { mode = "full", inverse, ...options }: ReverseOptions = {},
+  ): Promise<AudioBuffer> {
+    const input = { channels: copyChannels(buffer), sampleRate: buffer.sampleRate, mode, inverse }
+    const { channels } = await this.processor.run("reverse", input, options)
+    return createAudioBuffer(this.getContext(), channels, buffer.sampleRate)
+  }
+
+  decode(data: ArrayBuffer): Promise<AudioBuffer> {
+    return this.getContext().decodeAudioData(data)
+  }
+
+  beep(frequency: number, duration: number) {
+    const audioContext = this.getContext()
+    scheduleBeep(audioContext, audioContext.destination, audioContext.currentTime, frequency, duration)
+  }
+
+  // Releases the microphone and silences playback; the context stays so the engine can be reused
+  dispose() {
+    this.cancel()
+    this.stopPlayback()
+  }
+}
@@ -0,0 +1,74 @@
+// In-place iterative radix-2 FFT. `re` and `im` must share a power-of-two length.
+export function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${n}`)
+  }
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      const tr = re[i]
+      re[i] = re[j]
+      re[j] = tr
+      const ti = im[i]
+      im[i] = im[j]
+      im[j] = ti
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1
+    const step = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const angle = step * k
+        const wr = Math.cos(angle)
+        const wi = Math.sin(angle)
+        const a = start + k
+        const b = a + half
+        const xr = re[b] * wr - im[b] * wi
+        const xi = re[b] * wi + im[b] * wr
+        re[b] = re[a] - xr
+        im[b] = im[a] - xi
+        re[a] += xr
+        im[a] += xi
+      }
+    }
+  }
+}
+
+export function nextPowerOfTwo(value: number): number {
+  let n = 1
+  while (n < value) n <<= 1
+  return n
+}
+
+export function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size)
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1))
+  }
+  return window
+}
+
+// Power spectrum (|X|^2) of one windowed frame, bins 0..size/2 inclusive.
+export function powerSpectrum(frame: Float32Array, window: Float32Array): Float32Array {
+  const size = window.length
+  const re = new Float32Array(size)
+  const im = new Float32Array(size)
+  for (let i = 0; i < size && i < frame.length; i++) {
+    re[i] = frame[i] * window[i]
+  }
+  fft(re, im)
+
+  const power = new Float32Array(size / 2 + 1)
+  for (let k = 0; k < power.length; k++) {
+    power[k] = re[k] * re[k] + im[k] * im[k]
+  }
+  return power
+}
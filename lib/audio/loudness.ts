@@ -0,0 +1,146 @@
+import { amplitudeToDb, dbToAmplitude } from "@/lib/audio/silence"
+
+export interface LoudnessMeasurement {
+  rms: number
+  rmsDb: number
+  peak: number
+  peakDb: number
+}
+
+export interface NormalizeOptions {
+  targetDb?: number
+  ceilingDb?: number
+  gateDb?: number
+  releaseDuration?: number
+}
+
+const DEFAULT_NORMALIZE_OPTIONS: Required<NormalizeOptions> = {
+  targetDb: -20,
+  ceilingDb: -1,
+  gateDb: -50,
+  releaseDuration: 0.05,
+}
+
+const GATE_WINDOW = 0.02
+
+// Gated RMS across all channels: windows quieter than gateDb are ignored so pauses don't skew the level.
+export function measureLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  gateDb = DEFAULT_NORMALIZE_OPTIONS.gateDb,
+): LoudnessMeasurement {
+  const length = channels[0]?.length ?? 0
+  const windowSize = Math.max(1, Math.round(GATE_WINDOW * sampleRate))
+  const gate = dbToAmplitude(gateDb)
+
+  let peak = 0
+  let gatedSum = 0
+  let gatedCount = 0
+  for (let start = 0; start < length; start += windowSize) {
+    const end = Math.min(length, start + windowSize)
+    let sum = 0
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const value = data[i]
+        sum += value * value
+        const magnitude = Math.abs(value)
+        if (magnitude > peak) peak = magnitude
+      }
+    }
+    const count = (end - start) * channels.length
+    if (Math.sqrt(sum / count) >= gate) {
+      gatedSum += sum
+      gatedCount += count
+    }
+  }
+
+  const rms = gatedCount > 0 ? Math.sqrt(gatedSum / gatedCount) : 0
+  return { rms, rmsDb: amplitudeToDb(rms), peak, peakDb: amplitudeToDb(peak) }
+}
+
+// Applies make-up gain towards targetDb, then a peak limiter (instant attack, exponential release)
+// so nothing exceeds ceilingDb. Returns new channel arrays; the input is left untouched.
+export function normalizeLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: NormalizeOptions = {},
+): { channels: Float32Array[]; gainDb: number } {
+  const opts = { ...DEFAULT_NORMALIZE_OPTIONS, ...options }
+  const { rms } = measureLoudness(channels, sampleRate, opts.gateDb)
+  if (rms === 0) {
+    return { channels: channels.map((data) => data.slice()), gainDb: 0 }
+  }
+
+  const gain = dbToAmplitude(opts.targetDb) / rms
+  const ceiling = dbToAmplitude(opts.ceilingDb)
+  const release = Math.exp(-1 / Math.max(1, opts.releaseDuration * sampleRate))
+  const length = channels[0].length
+  const output = channels.map(() => new Float32Array(length))
+
+  let limiterGain = 1
+  for (let i = 0; i < length; i++) {
+    let peak = 0
+    for (const data of channels) {
+      const magnitude = Math.abs(data[i] * gain)
+      if (magnitude > peak) peak = magnitude
+    }
+    const required = peak > ceiling ? ceiling / peak : 1
+    limiterGain = required < limiterGain ? required : required - (required - limiterGain) * release
+    for (let c = 0; c < channels.length; c++) {
+      output[c][i] = channels[c][i] * gain * limiterGain
+    }
+  }
+
+  return { channels: output, gainDb: amplitudeToDb(gain) }
+}
+
+export type RecordingVerdict = "good" | "clipped" | "too-quiet"
+
+export interface RecordingQualityReport {
+  verdict: RecordingVerdict
+  peakDb: number
+  rmsDb: number
+  clippedRatio: number
+}
+
+// Samples at or above this magnitude are assumed to have hit the converter's ceiling
+export const CLIP_LEVEL = 0.99
+const MAX_CLIPPED_RATIO = 0.001
+const MIN_RMS_DB = -40
+
+// Ungated peak and RMS of a single frame, used for live metering.
+export function measureLevels(samples: Float32Array): { peakDb: number; rmsDb: number } {
+  let peak = 0
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i])
+    if (magnitude > peak) peak = magnitude
+    sum += samples[i] * samples[i]
+  }
+  return { peakDb: amplitudeToDb(peak), rmsDb: amplitudeToDb(Math.sqrt(sum / Math.max(1, samples.length))) }
+}
+
+// Judges a raw (un-normalized) recording: too many samples at the ceiling means clipping,
+// a low gated RMS means the speaker was too far from the mic or whispering.
+export function assessRecordingQuality(channels: Float32Array[], sampleRate: number): RecordingQualityReport {
+  const { peakDb, rmsDb } = measureLoudness(channels, sampleRate)
+
+  let clipped = 0
+  let total = 0
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      if (Math.abs(data[i]) >= CLIP_LEVEL) clipped++
+    }
+    total += data.length
+  }
+  const clippedRatio = clipped / Math.max(1, total)
+
+  let verdict: RecordingVerdict = "good"
+  if (clippedRatio > MAX_CLIPPED_RATIO) {
+    verdict = "clipped"
+  } else if (rmsDb < MIN_RMS_DB) {
+    verdict = "too-quiet"
+  }
+
+  return { verdict, peakDb, rmsDb, clippedRatio }
+}
@@ -0,0 +1,47 @@
+import { scheduleBeep } from "@/lib/audio/beep"
+
+export interface MontageOptions {
+  gapDuration?: number
+  beep?: boolean
+  beepFrequency?: number
+  beepDuration?: number
+}
+
+const DEFAULT_MONTAGE_OPTIONS: Required<MontageOptions> = {
+  gapDuration: 0.6,
+  beep: true,
+  beepFrequency: 880,
+  beepDuration: 0.15,
+}
+
+// Renders the clips back to back, separated by short gaps with an optional beep, using an OfflineAudioContext.
+export async function renderMontage(clips: AudioBuffer[], options: MontageOptions = {}): Promise<AudioBuffer> {
+  if (clips.length === 0) {
+    throw new Error("A montage needs at least one clip")
+  }
+
+  const opts = { ...DEFAULT_MONTAGE_OPTIONS, ...options }
+  const sampleRate = clips[0].sampleRate
+  const channels = Math.max(...clips.map((clip) => clip.numberOfChannels))
+  const totalDuration = clips.reduce((sum, clip) => sum + clip.duration, 0) + opts.gapDuration * (clips.length - 1)
+  const context = new OfflineAudioContext(channels, Math.ceil(totalDuration * sampleRate), sampleRate)
+
+  let time = 0
+  clips.forEach((clip, index) => {
+    const source = context.createBufferSource()
+    source.buffer = clip
+    source.connect(context.destination)
+    source.start(time)
+    time += clip.duration
+
+    if (index < clips.length - 1) {
+      if (opts.beep) {
+        const beepStart = time + (opts.gapDuration - opts.beepDuration) / 2
+        scheduleBeep(context, context.destination, beepStart, opts.beepFrequency, opts.beepDuration)
+      }
+      time += opts.gapDuration
+    }
+  })
+
+  return context.startRendering()
+}
@@ -0,0 +1,102 @@
+import { amplitudeToDb } from "@/lib/audio/silence"
+
+export interface OnsetOptions {
+  hopDuration?: number
+  smoothingDuration?: number
+  // How far the envelope must dip between two peaks for them to count as separate syllables
+  minProminenceDb?: number
+  minGap?: number
+  // Peaks quieter than this, relative to the loudest frame, are ignored
+  floorDb?: number
+}
+
+const DEFAULT_ONSET_OPTIONS: Required<OnsetOptions> = {
+  hopDuration: 0.01,
+  smoothingDuration: 0.05,
+  minProminenceDb: 6,
+  minGap: 0.12,
+  floorDb: -30,
+}
+
+const RISE_MARGIN_DB = 3
+
+// RMS energy per hop, smoothed with a moving average and expressed in dB
+function energyEnvelope(samples: Float32Array, hop: number, smoothing: number): Float32Array {
+  const frames = Math.ceil(samples.length / hop)
+  const energy = new Float32Array(frames)
+  for (let frame = 0; frame < frames; frame++) {
+    const start = frame * hop
+    const end = Math.min(samples.length, start + hop)
+    let sum = 0
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i]
+    energy[frame] = sum / Math.max(1, end - start)
+  }
+
+  const half = Math.floor(smoothing / 2)
+  const envelope = new Float32Array(frames)
+  for (let frame = 0; frame < frames; frame++) {
+    const from = Math.max(0, frame - half)
+    const to = Math.min(frames - 1, frame + half)
+    let sum = 0
+    for (let i = from; i <= to; i++) sum += energy[i]
+    envelope[frame] = amplitudeToDb(Math.sqrt(sum / (to - from + 1)))
+  }
+  return envelope
+}
+
+function argMin(values: Float32Array, from: number, to: number): number {
+  let best = from
+  for (let i = from + 1; i <= to; i++) {
+    if (values[i] < values[best]) best = i
+  }
+  return best
+}
+
+// Finds where syllables start in a mono clip by picking peaks in its energy envelope. Neighbouring
+// peaks are merged until every pair is far enough apart and separated by a deep enough dip; each
+// syllable then starts where the envelope climbs out of the dip before it. Returns onset times in
+// seconds, in order.
+export function detectSyllableOnsets(samples: Float32Array, sampleRate: number, options: OnsetOptions = {}): number[] {
+  const opts = { ...DEFAULT_ONSET_OPTIONS, ...options }
+  const hop = Math.max(1, Math.round(opts.hopDuration * sampleRate))
+  const hopSeconds = hop / sampleRate
+  const envelope = energyEnvelope(samples, hop, Math.max(1, Math.round(opts.smoothingDuration / hopSeconds)))
+  if (envelope.length < 3) return []
+
+  const loudest = envelope.reduce((max, value) => Math.max(max, value), Number.NEGATIVE_INFINITY)
+  const floor = loudest + opts.floorDb
+
+  const peaks: number[] = []
+  for (let i = 1; i < envelope.length - 1; i++) {
+    if (envelope[i] > floor && envelope[i] > envelope[i - 1] && envelope[i] >= envelope[i + 1]) {
+      peaks.push(i)
+    }
+  }
+
+  const minGapFrames = opts.minGap / hopSeconds
+  let merged = true
+  while (merged) {
+    merged = false
+    for (let k = 0; k + 1 < peaks.length; k++) {
+      const a = peaks[k]
+      const b = peaks[k + 1]
+      const dip = Math.min(envelope[a], envelope[b]) - envelope[argMin(envelope, a, b)]
+      if (b - a < minGapFrames || dip < opts.minProminenceDb) {
+        // Keep the louder of the two as the syllable's nucleus
+        peaks.splice(envelope[a] >= envelope[b] ? k + 1 : k, 1)
+        merged = true
+        break
+      }
+    }
+  }
+
+  return peaks.map((peak, k) => {
+    // Walk back up the rise towards the dip before this syllable, stopping once the envelope is
+    // within a few dB of the dip so flat stretches of background noise aren't counted as the onset
+    const valley = argMin(envelope, k > 0 ? peaks[k - 1] : 0, peak)
+    const base = Math.max(envelope[valley], floor) + RISE_MARGIN_DB
+    let start = peak
+    while (start > valley && envelope[start - 1] > base && envelope[start - 1] <= envelope[start]) start--
+    return start * hopSeconds
+  })
+}
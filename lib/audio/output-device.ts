@@ -0,0 +1,16 @@
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> }
+
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype
+}
+
+// Routes an AudioContext to the given output device where the browser supports it; "" is the system default.
+export async function applyOutputDevice(context: AudioContext, deviceId: string) {
+  const sinkContext = context as SinkAudioContext
+  if (!sinkContext.setSinkId) return
+  try {
+    await sinkContext.setSinkId(deviceId)
+  } catch (error) {
+    console.error("Error switching output device:", error)
+  }
+}
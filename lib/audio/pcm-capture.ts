@@ -0,0 +1,137 @@
+const PROCESSOR_NAME = "pcm-capture"
+// Frames buffered inside the worklet before a chunk is posted; 128-frame render quanta would flood the port
+const CHUNK_FRAMES = 4096
+
+// Runs on the audio rendering thread. Loaded from a Blob URL so it needs no bundler support.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.capturing = true
+    this.channels = []
+    this.filled = 0
+    this.port.onmessage = (event) => {
+      if (event.data === "stop") {
+        this.flush()
+        this.capturing = false
+        this.port.postMessage({ type: "done" })
+      }
+    }
+  }
+
+  flush() {
+    if (this.filled === 0) return
+    const chunk = this.channels.map((channel) => channel.slice(0, this.filled))
+    this.port.postMessage({ type: "chunk", channels: chunk }, chunk.map((channel) => channel.buffer))
+    this.filled = 0
+  }
+
+  process(inputs) {
+    if (!this.capturing) return false
+    const input = inputs[0]
+    if (!input || input.length === 0) return true
+    if (this.channels.length !== input.length) {
+      this.flush()
+      this.channels = input.map(() => new Float32Array(${CHUNK_FRAMES}))
+    }
+    let offset = 0
+    const frames = input[0].length
+    while (offset < frames) {
+      const count = Math.min(frames - offset, ${CHUNK_FRAMES} - this.filled)
+      input.forEach((data, channel) => this.channels[channel].set(data.subarray(offset, offset + count), this.filled))
+      this.filled += count
+      offset += count
+      if (this.filled === ${CHUNK_FRAMES}) this.flush()
+    }
+    return true
+  }
+}
+
+registerProcessor("${PROCESSOR_NAME}", PcmCaptureProcessor)
+`
+
+type WorkletMessage = { type: "chunk"; channels: Float32Array[] } | { type: "done" }
+
+export interface PcmCapture {
+  // Resolves with one Float32Array per channel at the context's sample rate
+  stop(): Promise<Float32Array[]>
+  cancel(): void
+}
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>()
+
+export function supportsPcmCapture(): boolean {
+  return typeof AudioWorkletNode !== "undefined"
+}
+
+export function loadPcmCaptureWorklet(context: AudioContext): Promise<void> {
+  let loading = loadedContexts.get(context)
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: "text/javascript" }))
+    loading = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url))
+    // A failed load shouldn't be cached, so a later attempt can retry
+    loading.catch(() => loadedContexts.delete(context))
+    loadedContexts.set(context, loading)
+  }
+  return loading
+}
+
+function concatenate(chunks: Float32Array[]): Float32Array {
+  const output = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.length
+  }
+  return output
+}
+
+// Records raw samples from `source` with no encoding step; the worklet must already be loaded.
+export function startPcmCapture(context: AudioContext, source: AudioNode, channelCount = 1): PcmCapture {
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount,
+    channelCountMode: "explicit",
+  })
+  // Some browsers only render nodes that lead to the destination, so route through a muted gain
+  const mute = context.createGain()
+  mute.gain.value = 0
+  source.connect(node)
+  node.connect(mute).connect(context.destination)
+
+  const chunks: Float32Array[][] = Array.from({ length: channelCount }, () => [])
+  const done = new Promise<void>((resolve) => {
+    node.port.onmessage = (event: MessageEvent<WorkletMessage>) => {
+      if (event.data.type === "chunk") {
+        event.data.channels.forEach((data, channel) => chunks[channel]?.push(data))
+      } else {
+        resolve()
+      }
+    }
+  })
+
+  const teardown = () => {
+    try {
+      source.disconnect(node)
+    } catch {
+      // The source may already have been disconnected when the input was released
+    }
+    node.disconnect()
+    mute.disconnect()
+    node.port.onmessage = null
+  }
+
+  return {
+    async stop() {
+      node.port.postMessage("stop")
+      await done
+      teardown()
+      return chunks.map(concatenate)
+    },
+    cancel() {
+      node.port.postMessage("stop")
+      teardown()
+    },
+  }
+}
@@ -0,0 +1,34 @@
+import { toMono } from "@/lib/audio/buffer"
+
+export const DEFAULT_PEAK_BUCKETS = 1000
+
+// Interleaved [min, max] pairs, one per bucket, for drawing a waveform overview.
+export function computePeaks(samples: Float32Array, buckets = DEFAULT_PEAK_BUCKETS): Float32Array {
+  const count = Math.max(1, Math.min(buckets, samples.length))
+  const peaks = new Float32Array(count * 2)
+  const size = samples.length / count
+  for (let b = 0; b < count; b++) {
+    let min = 0
+    let max = 0
+    const end = Math.min(samples.length, Math.floor((b + 1) * size))
+    for (let i = Math.floor(b * size); i < end; i++) {
+      if (samples[i] < min) min = samples[i]
+      if (samples[i] > max) max = samples[i]
+    }
+    peaks[b * 2] = min
+    peaks[b * 2 + 1] = max
+  }
+  return peaks
+}
+
+const peakCache = new WeakMap<AudioBuffer, Float32Array>()
+
+// Peaks are computed once per AudioBuffer and reused by every waveform that draws it.
+export function getPeaks(buffer: AudioBuffer): Float32Array {
+  let peaks = peakCache.get(buffer)
+  if (!peaks) {
+    peaks = computePeaks(toMono(buffer))
+    peakCache.set(buffer, peaks)
+  }
+  return peaks
+}
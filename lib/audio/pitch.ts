@@ -0,0 +1,178 @@
+import type { Alignment } from "@/lib/audio/alignment"
+import { SILENCE_RMS } from "@/lib/audio/similarity"
+
+export interface PitchOptions {
+  frameDuration?: number
+  hopDuration?: number
+  minFrequency?: number
+  maxFrequency?: number
+  // YIN's absolute threshold on the cumulative mean normalized difference; lower is stricter
+  threshold?: number
+}
+
+export interface PitchContour {
+  hopDuration: number
+  // Fundamental frequency per frame in Hz, 0 where the frame is unvoiced
+  frequencies: Float32Array
+}
+
+const DEFAULT_PITCH_OPTIONS: Required<PitchOptions> = {
+  frameDuration: 0.04,
+  hopDuration: 0.02,
+  minFrequency: 70,
+  maxFrequency: 600,
+  threshold: 0.15,
+}
+
+// Voice fundamentals sit well below this, so analysing at a lower rate keeps YIN's O(n²) cost down
+const ANALYSIS_RATE = 11025
+// Both contours need at least this many jointly voiced frames for a melody score to mean anything
+const MIN_SHARED_FRAMES = 10
+// Mean deviation, in semitones, at which the melody score reaches zero
+const MAX_SEMITONE_ERROR = 4
+
+// Box-filtered decimation; crude, but enough to keep aliasing out of the pitch range
+function downsample(samples: Float32Array, factor: number): Float32Array {
+  if (factor <= 1) return samples
+  const output = new Float32Array(Math.floor(samples.length / factor))
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j]
+    output[i] = sum / factor
+  }
+  return output
+}
+
+function frameRms(samples: Float32Array, start: number, length: number): number {
+  let sum = 0
+  for (let i = start; i < start + length; i++) sum += samples[i] * samples[i]
+  return Math.sqrt(sum / length)
+}
+
+// Runs YIN on one frame and returns the period in samples, or 0 if no clear periodicity was found.
+function yinPeriod(
+  samples: Float32Array,
+  start: number,
+  window: number,
+  minLag: number,
+  maxLag: number,
+  threshold: number,
+  difference: Float32Array,
+): number {
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = start; i < start + window; i++) {
+      const delta = samples[i] - samples[i + lag]
+      sum += delta * delta
+    }
+    difference[lag] = sum
+  }
+
+  // Cumulative mean normalized difference, computed in place
+  difference[0] = 1
+  let runningSum = 0
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag]
+    difference[lag] = runningSum > 0 ? (difference[lag] * lag) / runningSum : 1
+  }
+
+  let lag = minLag
+  while (lag <= maxLag && difference[lag] >= threshold) lag++
+  if (lag > maxLag) return 0
+  while (lag + 1 <= maxLag && difference[lag + 1] < difference[lag]) lag++
+
+  // Parabolic interpolation around the dip for sub-sample accuracy
+  if (lag > 1 && lag < maxLag) {
+    const a = difference[lag - 1]
+    const b = difference[lag]
+    const c = difference[lag + 1]
+    const denominator = a - 2 * b + c
+    if (denominator !== 0) return lag + (a - c) / (2 * denominator)
+  }
+  return lag
+}
+
+// Three-point median filter: removes single-frame octave jumps without smearing real glides
+function medianSmooth(values: Float32Array): Float32Array {
+  const output = values.slice()
+  for (let i = 1; i < values.length - 1; i++) {
+    const window = [values[i - 1], values[i], values[i + 1]]
+    if (window.some((value) => value === 0)) continue
+    window.sort((x, y) => x - y)
+    output[i] = window[1]
+  }
+  return output
+}
+
+// Tracks the fundamental frequency of a mono clip frame by frame with the YIN algorithm.
+export function trackPitch(samples: Float32Array, sampleRate: number, options: PitchOptions = {}): PitchContour {
+  const opts = { ...DEFAULT_PITCH_OPTIONS, ...options }
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE))
+  const signal = downsample(samples, factor)
+  const rate = sampleRate / factor
+
+  const window = Math.round(opts.frameDuration * rate)
+  const hop = Math.max(1, Math.round(opts.hopDuration * rate))
+  const minLag = Math.max(2, Math.floor(rate / opts.maxFrequency))
+  const maxLag = Math.ceil(rate / opts.minFrequency)
+  const frameCount = Math.max(0, Math.floor((signal.length - window - maxLag - 1) / hop) + 1)
+  const difference = new Float32Array(maxLag + 1)
+  const frequencies = new Float32Array(frameCount)
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * hop
+    if (frameRms(signal, start, window) < SILENCE_RMS) continue
+    const period = yinPeriod(signal, start, window, minLag, maxLag, opts.threshold, difference)
+    frequencies[frame] = period > 0 ? rate / period : 0
+  }
+
+  return { hopDuration: hop / rate, frequencies: medianSmooth(frequencies) }
+}
+
+function medianVoiced(frequencies: Float32Array): number {
+  const voiced = Array.from(frequencies).filter((value) => value > 0)
+  if (voiced.length === 0) return 0
+  voiced.sort((a, b) => a - b)
+  return voiced[Math.floor(voiced.length / 2)]
+}
+
+// Looks up the contour value at a time in seconds, 0 if out of range or unvoiced
+export function pitchAt(contour: PitchContour, time: number): number {
+  const index = Math.round(time / contour.hopDuration)
+  return index >= 0 && index < contour.frequencies.length ? contour.frequencies[index] : 0
+}
+
+// 0–100 score for how well the imitation's intonation follows the original's. Each contour is taken
+// relative to its own median, so a deeper or higher voice isn't penalized, and differences fold into
+// ±6 semitones so octave slips by the tracker or the singer don't dominate. Null when either clip has
+// too little voiced audio to judge.
+export function melodyMatch(reference: PitchContour, candidate: PitchContour, alignment: Alignment): number | null {
+  const referenceMedian = medianVoiced(reference.frequencies)
+  const candidateMedian = medianVoiced(candidate.frequencies)
+  if (referenceMedian === 0 || candidateMedian === 0) return null
+
+  let referenceVoiced = 0
+  let shared = 0
+  let totalError = 0
+  for (let i = 0; i < reference.frequencies.length; i++) {
+    const referencePitch = reference.frequencies[i]
+    if (referencePitch === 0) continue
+    referenceVoiced++
+
+    const sharedTime = alignment.referenceStart + i * reference.hopDuration
+    const candidatePitch = pitchAt(candidate, sharedTime - alignment.candidateStart)
+    if (candidatePitch === 0) continue
+
+    const difference =
+      12 * Math.log2(referencePitch / referenceMedian) - 12 * Math.log2(candidatePitch / candidateMedian)
+    const folded = (((difference + 6) % 12) + 12) % 12 - 6
+    totalError += Math.abs(folded)
+    shared++
+  }
+
+  if (shared < MIN_SHARED_FRAMES) return null
+  const accuracy = Math.max(0, 1 - totalError / shared / MAX_SEMITONE_ERROR)
+  // Humming only part of the melody shouldn't score as well as following all of it
+  const coverage = shared / referenceVoiced
+  return Math.round(100 * accuracy * Math.sqrt(coverage))
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { getBufferPosition, getPlaybackPosition, type PlaybackState } from "@/lib/audio/playback"
+
+// Only `duration` is read; identity is what tells the main buffer and the companion apart
+const fakeBuffer = (duration: number) => ({ duration }) as AudioBuffer
+
+describe("getPlaybackPosition", () => {
+  it("advances from the offset and stops at the end", () => {
+    const state: PlaybackState = { buffer: fakeBuffer(4), startedAt: 10, offset: 1, end: 3, loop: false }
+    expect(getPlaybackPosition(state, 10.5)).toBeCloseTo(1.5)
+    expect(getPlaybackPosition(state, 20)).toBe(3)
+  })
+
+  it("wraps around the region when looping", () => {
+    const state: PlaybackState = { buffer: fakeBuffer(4), startedAt: 0, offset: 1, end: 2, loop: true }
+    expect(getPlaybackPosition(state, 2.25)).toBeCloseTo(1.25)
+  })
+})
+
+describe("getBufferPosition", () => {
+  const original = fakeBuffer(3)
+  const imitation = fakeBuffer(2)
+
+  it("tracks the companion from its own offset", () => {
+    const state: PlaybackState = {
+      buffer: original,
+      startedAt: 0,
+      offset: 1,
+      end: 3,
+      loop: false,
+      companion: imitation,
+      companionOffset: 0.25,
+    }
+    expect(getBufferPosition(state, original, 0.5)).toBeCloseTo(1.5)
+    expect(getBufferPosition(state, imitation, 0.5)).toBeCloseTo(0.75)
+  })
+
+  it("holds a delayed companion at its start until it begins", () => {
+    const state: PlaybackState = {
+      buffer: original,
+      startedAt: 0,
+      offset: 0,
+      end: 3,
+      loop: false,
+      companion: imitation,
+      companionOffset: -0.5,
+    }
+    expect(getBufferPosition(state, imitation, 0.25)).toBe(0)
+    expect(getBufferPosition(state, imitation, 1)).toBeCloseTo(0.5)
+  })
+
+  it("returns null for buffers that aren't playing", () => {
+    const state: PlaybackState = { buffer: original, startedAt: 0, offset: 0, end: 3, loop: false }
+    expect(getBufferPosition(state, imitation, 1)).toBeNull()
+  })
+})
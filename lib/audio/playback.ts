@@ -0,0 +1,35 @@
+export interface PlaybackRegion {
+  start: number
+  end: number
+}
+
+export interface PlaybackState {
+  buffer: AudioBuffer
+  startedAt: number
+  offset: number
+  end: number
+  loop: boolean
+  // Second buffer playing in sync (split-ear mode), sharing the same clock
+  companion?: AudioBuffer
+  // Where the companion started within its own buffer, if not at `offset`; negative means it started late
+  companionOffset?: number
+}
+
+// Position in seconds within the playing buffer, derived from the AudioContext clock.
+export function getPlaybackPosition(state: PlaybackState, currentTime: number): number {
+  const elapsed = Math.max(0, currentTime - state.startedAt)
+  const length = state.end - state.offset
+  if (state.loop && length > 0) {
+    return state.offset + (elapsed % length)
+  }
+  return Math.min(state.end, state.offset + elapsed)
+}
+
+// Position within `buffer` if it is the main buffer or the companion of this playback, otherwise null.
+export function getBufferPosition(state: PlaybackState, buffer: AudioBuffer, currentTime: number): number | null {
+  const position = getPlaybackPosition(state, currentTime)
+  if (buffer === state.buffer) return position
+  if (buffer !== state.companion) return null
+  const companionPosition = position - state.offset + (state.companionOffset ?? state.offset)
+  return Math.min(buffer.duration, Math.max(0, companionPosition))
+}
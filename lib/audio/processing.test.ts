@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import { runProcessingTask } from "@/lib/audio/processing"
+
+const SAMPLE_RATE = 8000
+
+// Silence, a second of tone, then silence again
+function paddedTone(): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * 2)
+  for (let i = SAMPLE_RATE / 2; i < (SAMPLE_RATE * 3) / 2; i++) {
+    samples[i] = 0.05 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)
+  }
+  return samples
+}
+
+describe("clip preparation tasks", () => {
+  it("mixes down to mono and judges the raw take", () => {
+    const left = paddedTone().map((sample) => sample * 0.1)
+    const { samples, quality } = runProcessingTask("mixdown", {
+      channels: [left, new Float32Array(left.length)],
+      sampleRate: SAMPLE_RATE,
+    })
+
+    expect(samples).toHaveLength(left.length)
+    expect(samples[SAMPLE_RATE]).toBeCloseTo(left[SAMPLE_RATE] / 2)
+    expect(quality.verdict).toBe("too-quiet")
+  })
+
+  it("trims the silence around the tone and reports the region", () => {
+    const { samples, region } = runProcessingTask("trim", {
+      samples: paddedTone(),
+      sampleRate: SAMPLE_RATE,
+      thresholdDb: -45,
+    })
+
+    expect(region.length).toBe(SAMPLE_RATE * 2)
+    expect(region.start).toBeGreaterThan(0)
+    expect(region.end).toBeLessThan(region.length)
+    expect(samples).toHaveLength(region.end - region.start)
+  })
+
+  it("brings a quiet clip up without touching the input", () => {
+    const input = paddedTone()
+    const { samples } = runProcessingTask("normalize", { samples: input, sampleRate: SAMPLE_RATE })
+
+    expect(Math.max(...samples)).toBeGreaterThan(Math.max(...input))
+    expect(samples).not.toBe(input)
+  })
+})
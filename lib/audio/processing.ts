@@ -0,0 +1,171 @@
+import { alignClips, type Alignment } from "@/lib/audio/alignment"
+import { mixChannels } from "@/lib/audio/buffer"
+import { assessRecordingQuality, normalizeLoudness, type RecordingQualityReport } from "@/lib/audio/loudness"
+import { detectSyllableOnsets } from "@/lib/audio/onsets"
+import { melodyMatch, trackPitch, type PitchContour } from "@/lib/audio/pitch"
+import { REVERSAL_STRATEGIES, type ReversalModeId } from "@/lib/audio/reversal"
+import { detectSilence, type TrimRegion } from "@/lib/audio/silence"
+import { computeSimilarity, type SimilarityResult } from "@/lib/audio/similarity"
+import { computeSpectrogram, type Spectrogram } from "@/lib/audio/spectrogram"
+import { timeStretch } from "@/lib/audio/time-stretch"
+
+// Every job the processing pipeline can run, keyed by name. Inputs and outputs are plain
+// Float32Arrays so they can cross a worker boundary as transferables.
+export interface ProcessingTasks {
+  reverse: {
+    // `inverse` undoes the mode instead of applying it
+    input: { channels: Float32Array[]; sampleRate: number; mode: ReversalModeId; inverse?: boolean }
+    output: { channels: Float32Array[] }
+  }
+  analyze: {
+    input: { reference: Float32Array; candidate: Float32Array; sampleRate: number }
+    output: {
+      similarity: SimilarityResult
+      alignment: Alignment
+      pitch: { reference: PitchContour; candidate: PitchContour }
+      melodyScore: number | null
+    }
+  }
+  onsets: {
+    input: { samples: Float32Array; sampleRate: number }
+    // Syllable onset times in seconds
+    output: { onsets: number[] }
+  }
+  "time-stretch": {
+    input: { channels: Float32Array[]; sampleRate: number; rate: number }
+    output: { channels: Float32Array[] }
+  }
+  mixdown: {
+    input: { channels: Float32Array[]; sampleRate: number }
+    // The quality verdict is taken on the raw mono take, before trimming or normalization can hide problems
+    output: { samples: Float32Array; quality: RecordingQualityReport }
+  }
+  trim: {
+    input: { samples: Float32Array; sampleRate: number; thresholdDb: number }
+    output: { samples: Float32Array; region: TrimRegion }
+  }
+  normalize: {
+    input: { samples: Float32Array; sampleRate: number }
+    output: { samples: Float32Array }
+  }
+  spectrogram: {
+    input: { samples: Float32Array; sampleRate: number }
+    output: { spectrogram: Spectrogram }
+  }
+}
+
+export type ProcessingTask = keyof ProcessingTasks
+export type ProcessingInput<K extends ProcessingTask> = ProcessingTasks[K]["input"]
+export type ProcessingOutput<K extends ProcessingTask> = ProcessingTasks[K]["output"]
+
+// Progress is reported as a fraction in [0, 1]
+export type ProgressCallback = (progress: number) => void
+
+export interface ProcessingRequest<K extends ProcessingTask = ProcessingTask> {
+  id: number
+  task: K
+  input: ProcessingInput<K>
+}
+
+export type ProcessingResponse =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "result"; output: ProcessingOutput<ProcessingTask> }
+  | { id: number; type: "error"; message: string }
+
+function reverse({ channels, sampleRate, mode, inverse }: ProcessingInput<"reverse">, onProgress: ProgressCallback) {
+  const strategy = REVERSAL_STRATEGIES[mode]
+  if (!strategy) throw new Error(`Unknown reversal mode: ${String(mode)}`)
+  const transform = inverse ? strategy.invert : strategy.apply
+  return { channels: transform(channels, sampleRate, onProgress) }
+}
+
+function analyze({ reference, candidate, sampleRate }: ProcessingInput<"analyze">, onProgress: ProgressCallback) {
+  const similarity = computeSimilarity(reference, candidate, sampleRate)
+  // MFCC + DTW and the two pitch tracks dominate; the envelope cross-correlation is cheap by comparison
+  onProgress(0.5)
+  const alignment = alignClips(reference, candidate, sampleRate)
+  const pitch = { reference: trackPitch(reference, sampleRate), candidate: trackPitch(candidate, sampleRate) }
+  onProgress(1)
+  return { similarity, alignment, pitch, melodyScore: melodyMatch(pitch.reference, pitch.candidate, alignment) }
+}
+
+function onsets({ samples, sampleRate }: ProcessingInput<"onsets">, onProgress: ProgressCallback) {
+  const times = detectSyllableOnsets(samples, sampleRate)
+  onProgress(1)
+  return { onsets: times }
+}
+
+function stretch({ channels, sampleRate, rate }: ProcessingInput<"time-stretch">, onProgress: ProgressCallback) {
+  // Channels share one set of WSOLA offsets to stay phase-coherent, so this is a single step
+  const stretched = timeStretch(channels, sampleRate, rate)
+  onProgress(1)
+  return { channels: stretched }
+}
+
+function mixdown({ channels, sampleRate }: ProcessingInput<"mixdown">, onProgress: ProgressCallback) {
+  const samples = mixChannels(channels)
+  const quality = assessRecordingQuality([samples], sampleRate)
+  onProgress(1)
+  return { samples, quality }
+}
+
+function trim({ samples, sampleRate, thresholdDb }: ProcessingInput<"trim">, onProgress: ProgressCallback) {
+  const region = detectSilence(samples, sampleRate, { thresholdDb })
+  onProgress(1)
+  if (region.start === 0 && region.end === region.length) {
+    return { samples, region }
+  }
+  return { samples: samples.slice(region.start, region.end), region }
+}
+
+function normalize({ samples, sampleRate }: ProcessingInput<"normalize">, onProgress: ProgressCallback) {
+  const { channels } = normalizeLoudness([samples], sampleRate)
+  onProgress(1)
+  return { samples: channels[0] }
+}
+
+function spectrogram({ samples, sampleRate }: ProcessingInput<"spectrogram">, onProgress: ProgressCallback) {
+  const result = computeSpectrogram(samples, sampleRate)
+  onProgress(1)
+  return { spectrogram: result }
+}
+
+// Runs a task synchronously on whichever thread calls it: the worker, or the main-thread fallback
+export function runProcessingTask<K extends ProcessingTask>(
+  task: K,
+  input: ProcessingInput<K>,
+  onProgress: ProgressCallback = () => {},
+): ProcessingOutput<K> {
+  switch (task) {
+    case "reverse":
+      return reverse(input as ProcessingInput<"reverse">, onProgress) as ProcessingOutput<K>
+    case "analyze":
+      return analyze(input as ProcessingInput<"analyze">, onProgress) as ProcessingOutput<K>
+    case "onsets":
+      return onsets(input as ProcessingInput<"onsets">, onProgress) as ProcessingOutput<K>
+    case "time-stretch":
+      return stretch(input as ProcessingInput<"time-stretch">, onProgress) as ProcessingOutput<K>
+    case "mixdown":
+      return mixdown(input as ProcessingInput<"mixdown">, onProgress) as ProcessingOutput<K>
+    case "trim":
+      return trim(input as ProcessingInput<"trim">, onProgress) as ProcessingOutput<K>
+    case "normalize":
+      return normalize(input as ProcessingInput<"normalize">, onProgress) as ProcessingOutput<K>
+    case "spectrogram":
+      return spectrogram(input as ProcessingInput<"spectrogram">, onProgress) as ProcessingOutput<K>
+    default:
+      throw new Error(`Unknown processing task: ${String(task)}`)
+  }
+}
+
+// Collects the buffers behind every Float32Array in a payload so postMessage can move rather than copy them
+export function collectTransferables(value: unknown, found: Set<ArrayBuffer> = new Set()): ArrayBuffer[] {
+  if (value instanceof Float32Array) {
+    if (value.buffer instanceof ArrayBuffer) found.add(value.buffer)
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectTransferables(item, found))
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectTransferables(item, found))
+  }
+  return [...found]
+}
@@ -0,0 +1,21 @@
+import {
+  collectTransferables,
+  runProcessingTask,
+  type ProcessingRequest,
+  type ProcessingResponse,
+} from "@/lib/audio/processing"
+
+// The project compiles against the DOM lib, so the worker global is typed through the Worker interface
+const scope = self as unknown as Worker
+
+const respond = (response: ProcessingResponse, transfer: Transferable[] = []) => scope.postMessage(response, transfer)
+
+scope.onmessage = (event: MessageEvent<ProcessingRequest>) => {
+  const { id, task, input } = event.data
+  try {
+    const output = runProcessingTask(task, input, (progress) => respond({ id, type: "progress", progress }))
+    respond({ id, type: "result", output }, collectTransferables(output))
+  } catch (error) {
+    respond({ id, type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}
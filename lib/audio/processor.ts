@@ -0,0 +1,123 @@
+import {
+  collectTransferables,
+  runProcessingTask,
+  type ProcessingInput,
+  type ProcessingOutput,
+  type ProcessingRequest,
+  type ProcessingResponse,
+  type ProcessingTask,
+  type ProgressCallback,
+} from "@/lib/audio/processing"
+
+// Below this many samples the round trip to the worker costs more than the work itself
+export const SYNC_PROCESSING_LIMIT = 1 << 15
+
+export interface RunOptions {
+  onProgress?: ProgressCallback
+}
+
+export interface AudioProcessor {
+  // Input arrays are transferred to the worker and unusable afterwards; pass copies of anything still needed
+  run<K extends ProcessingTask>(task: K, input: ProcessingInput<K>, options?: RunOptions): Promise<ProcessingOutput<K>>
+  dispose(): void
+}
+
+interface PendingJob {
+  resolve: (output: ProcessingOutput<ProcessingTask>) => void
+  reject: (error: Error) => void
+  onProgress?: ProgressCallback
+}
+
+function countSamples(input: unknown): number {
+  if (input instanceof Float32Array) return input.length
+  if (Array.isArray(input)) return input.reduce((sum: number, item) => sum + countSamples(item), 0)
+  if (input && typeof input === "object") {
+    return Object.values(input).reduce((sum: number, item) => sum + countSamples(item), 0)
+  }
+  return 0
+}
+
+function runSync<K extends ProcessingTask>(
+  task: K,
+  input: ProcessingInput<K>,
+  options: RunOptions,
+): Promise<ProcessingOutput<K>> {
+  try {
+    return Promise.resolve(runProcessingTask(task, input, options.onProgress))
+  } catch (error) {
+    return Promise.reject(error)
+  }
+}
+
+// Runs processing tasks in a Web Worker, falling back to the main thread for small inputs
+// and for environments without worker support.
+export function createAudioProcessor(): AudioProcessor {
+  let worker: Worker | null = null
+  let nextId = 0
+  const pending = new Map<number, PendingJob>()
+
+  const failAll = (error: Error) => {
+    pending.forEach((job) => job.reject(error))
+    pending.clear()
+  }
+
+  const getWorker = (): Worker | null => {
+    if (worker) return worker
+    if (typeof Worker === "undefined") return null
+    try {
+      worker = new Worker(new URL("./processing.worker.ts", import.meta.url), { type: "module" })
+    } catch (error) {
+      console.error("Audio worker unavailable, processing on the main thread:", error)
+      return null
+    }
+
+    worker.onmessage = (event: MessageEvent<ProcessingResponse>) => {
+      const response = event.data
+      const job = pending.get(response.id)
+      if (!job) return
+      if (response.type === "progress") {
+        job.onProgress?.(response.progress)
+        return
+      }
+      pending.delete(response.id)
+      if (response.type === "result") {
+        job.resolve(response.output)
+      } else {
+        job.reject(new Error(response.message))
+      }
+    }
+    worker.onerror = (event) => {
+      event.preventDefault()
+      failAll(new Error(event.message || "The audio worker crashed."))
+      worker?.terminate()
+      worker = null
+    }
+    return worker
+  }
+
+  return {
+    run(task, input, options = {}) {
+      const target = countSamples(input) > SYNC_PROCESSING_LIMIT ? getWorker() : null
+      if (!target) {
+        return runSync(task, input, options)
+      }
+
+      const id = nextId++
+      return new Promise((resolve, reject) => {
+        pending.set(id, {
+          resolve: resolve as PendingJob["resolve"],
+          reject,
+          onProgress: options.onProgress,
+        })
+        const request: ProcessingRequest<typeof task> = { id, task, input }
+        target.postMessage(request, collectTransferables(input))
+      })
+    },
+
+    dispose() {
+      failAll(new Error("The audio processor was disposed."))
+      worker?.terminate()
+      worker = null
+    },
+  }
+}
@@ -0,0 +1,128 @@
+import { mixChannels } from "@/lib/audio/buffer"
+import { detectSyllableOnsets } from "@/lib/audio/onsets"
+
+export type ReversalModeId = "full" | "chunks" | "segments"
+
+type ReversalTransform = (
+  channels: Float32Array[],
+  sampleRate: number,
+  onProgress: (progress: number) => void,
+) => Float32Array[]
+
+export interface ReversalStrategy {
+  label: string
+  description: string
+  apply: ReversalTransform
+  // Undoes `apply`, so an imitation of the transformed clip can be compared with the original
+  invert: ReversalTransform
+}
+
+const REVERSE_BLOCK = 1 << 16
+const CHUNK_DURATION = 0.25
+// Short fades where pieces are cut apart and rejoined, so the seams don't click
+const SEAM_FADE = 0.005
+
+function reverseFull(channels: Float32Array[], _sampleRate: number, onProgress: (progress: number) => void) {
+  const total = channels.reduce((sum, channel) => sum + channel.length, 0)
+  let done = 0
+  return channels.map((channel) => {
+    const output = new Float32Array(channel.length)
+    const last = channel.length - 1
+    for (let start = 0; start < channel.length; start += REVERSE_BLOCK) {
+      const end = Math.min(channel.length, start + REVERSE_BLOCK)
+      for (let i = start; i < end; i++) {
+        output[i] = channel[last - i]
+      }
+      done += end - start
+      onProgress(done / Math.max(1, total))
+    }
+    return output
+  })
+}
+
+function fadeEdges(data: Float32Array, start: number, end: number, fade: number) {
+  const length = Math.min(fade, Math.floor((end - start) / 2))
+  for (let i = 0; i < length; i++) {
+    const gain = i / length
+    data[start + i] *= gain
+    data[end - 1 - i] *= gain
+  }
+}
+
+// Cuts every channel at the same sample positions and writes the pieces back in the given order,
+// optionally reversing each piece
+function rearrange(
+  channels: Float32Array[],
+  sampleRate: number,
+  boundaries: number[],
+  order: number[],
+  reversePieces: boolean,
+): Float32Array[] {
+  const fade = Math.round(SEAM_FADE * sampleRate)
+  return channels.map((channel) => {
+    const output = new Float32Array(channel.length)
+    let offset = 0
+    for (const piece of order) {
+      const start = boundaries[piece]
+      const end = boundaries[piece + 1]
+      const segment = channel.subarray(start, end)
+      output.set(reversePieces ? segment.slice().reverse() : segment, offset)
+      fadeEdges(output, offset, offset + segment.length, fade)
+      offset += segment.length
+    }
+    return output
+  })
+}
+
+function reverseChunks(channels: Float32Array[], sampleRate: number, onProgress: (progress: number) => void) {
+  const length = channels[0]?.length ?? 0
+  const chunk = Math.max(1, Math.round(CHUNK_DURATION * sampleRate))
+  const boundaries: number[] = []
+  for (let start = 0; start < length; start += chunk) boundaries.push(start)
+  boundaries.push(length)
+  const order = Array.from({ length: boundaries.length - 1 }, (_, i) => i)
+  const output = rearrange(channels, sampleRate, boundaries, order, true)
+  onProgress(1)
+  return output
+}
+
+function reverseSegmentOrder(channels: Float32Array[], sampleRate: number, onProgress: (progress: number) => void) {
+  const length = channels[0]?.length ?? 0
+  const onsets = detectSyllableOnsets(mixChannels(channels), sampleRate)
+    .map((time) => Math.round(time * sampleRate))
+    .filter((sample) => sample >= 0 && sample < length)
+  const boundaries = [0, ...onsets, length]
+  // The lead-in before the first syllable stays put, so re-detecting on the output finds roughly the
+  // same pieces and applying the mode twice puts the clip back together
+  const order = [0, ...Array.from(onsets, (_, i) => onsets.length - i)]
+  const output = rearrange(channels, sampleRate, boundaries, order, false)
+  onProgress(1)
+  return output
+}
+
+// Every way the game can scramble a clip, keyed by mode. Adding a mode only takes a new entry here;
+// the processing pipeline, pickers and badges all read from this registry. Each built-in transform is
+// its own inverse, give or take the seam fades; the segment mode re-detects syllables in whatever it is
+// given, so for it the inverse is only approximate.
+export const REVERSAL_STRATEGIES: Record<ReversalModeId, ReversalStrategy> = {
+  full: {
+    label: "Full",
+    description: "The whole clip plays backwards",
+    apply: reverseFull,
+    invert: reverseFull,
+  },
+  chunks: {
+    label: "Chunks",
+    description: "Quarter-second chunks each play backwards, in their original order",
+    apply: reverseChunks,
+    invert: reverseChunks,
+  },
+  segments: {
+    label: "Word Order",
+    description: "Each syllable plays forwards, but the syllables come in reverse order",
+    apply: reverseSegmentOrder,
+    invert: reverseSegmentOrder,
+  },
+}
+
+export const REVERSAL_MODE_IDS = Object.keys(REVERSAL_STRATEGIES) as ReversalModeId[]
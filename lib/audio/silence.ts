@@ -0,0 +1,56 @@
+export interface SilenceTrimOptions {
+  thresholdDb?: number
+  windowDuration?: number
+  paddingDuration?: number
+}
+
+export interface TrimRegion {
+  start: number
+  end: number
+  length: number
+}
+
+const DEFAULT_SILENCE_OPTIONS: Required<SilenceTrimOptions> = {
+  thresholdDb: -45,
+  windowDuration: 0.02,
+  paddingDuration: 0.05,
+}
+
+export function amplitudeToDb(amplitude: number): number {
+  return 20 * Math.log10(Math.max(amplitude, 1e-10))
+}
+
+export function dbToAmplitude(db: number): number {
+  return 10 ** (db / 20)
+}
+
+// Finds the region between the first and last window whose RMS rises above the threshold.
+// Returns the whole clip when nothing is loud enough, so a quiet take is never trimmed to nothing.
+export function detectSilence(samples: Float32Array, sampleRate: number, options: SilenceTrimOptions = {}): TrimRegion {
+  const opts = { ...DEFAULT_SILENCE_OPTIONS, ...options }
+  const windowSize = Math.max(1, Math.round(opts.windowDuration * sampleRate))
+  const padding = Math.round(opts.paddingDuration * sampleRate)
+  const threshold = dbToAmplitude(opts.thresholdDb)
+
+  let first = -1
+  let last = -1
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(samples.length, start + windowSize)
+    let sum = 0
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i]
+    }
+    if (Math.sqrt(sum / (end - start)) >= threshold) {
+      if (first < 0) first = start
+      last = end
+    }
+  }
+
+  if (first < 0) {
+    return { start: 0, end: samples.length, length: samples.length }
+  }
+
+  const start = Math.max(0, first - padding)
+  const end = Math.min(samples.length, last + padding)
+  return { start, end, length: samples.length }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest"
+import { computeSimilarity, cosineDistance, distanceToScore, dynamicTimeWarp } from "@/lib/audio/similarity"
+
+const SAMPLE_RATE = 16000
+
+function features(...rows: number[][]): Float32Array[] {
+  return rows.map((row) => Float32Array.from(row))
+}
+
+// A vowel-ish tone whose pitch glides from `from` to `to` Hz over the clip
+function glide(duration: number, from: number, to: number): Float32Array {
+  const length = Math.round(duration * SAMPLE_RATE)
+  const samples = new Float32Array(length)
+  let phase = 0
+  for (let i = 0; i < length; i++) {
+    const frequency = from + ((to - from) * i) / length
+    phase += (2 * Math.PI * frequency) / SAMPLE_RATE
+    samples[i] = 0.3 * Math.sin(phase) + 0.15 * Math.sin(2 * phase) + 0.08 * Math.sin(3 * phase)
+  }
+  return samples
+}
+
+function noise(duration: number, seed = 1): Float32Array {
+  let state = seed
+  return Float32Array.from({ length: Math.round(duration * SAMPLE_RATE) }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31
+    return 0.3 * (state / 2 ** 30 - 1)
+  })
+}
+
+describe("cosineDistance", () => {
+  it("ignores the loudness coefficient", () => {
+    const [a, b] = features([1, 1, 0], [100, 2, 0])
+    expect(cosineDistance(a, b)).toBeCloseTo(0)
+  })
+
+  it("is 1 for orthogonal or empty vectors", () => {
+    const [a, b, silent] = features([0, 1, 0], [0, 0, 1], [5, 0, 0])
+    expect(cosineDistance(a, b)).toBeCloseTo(1)
+    expect(cosineDistance(a, silent)).toBe(1)
+  })
+})
+
+describe("dynamicTimeWarp", () => {
+  it("aligns identical sequences along the diagonal at zero cost", () => {
+    const sequence = features([0, 1, 0], [0, 0, 1], [0, 1, 1])
+    const { distance, path } = dynamicTimeWarp(sequence, sequence)
+
+    expect(distance).toBeCloseTo(0)
+    expect(path).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 2],
+    ])
+  })
+
+  it("absorbs a slower copy at zero cost with a monotonic path", () => {
+    const fast = features([0, 1, 0], [0, 0, 1], [0, 1, 1])
+    const slow = features([0, 1, 0], [0, 1, 0], [0, 0, 1], [0, 0, 1], [0, 1, 1], [0, 1, 1])
+    const { distance, path } = dynamicTimeWarp(fast, slow)
+
+    expect(distance).toBeCloseTo(0)
+    expect(path[0]).toEqual([0, 0])
+    expect(path[path.length - 1]).toEqual([2, 5])
+    for (let k = 1; k < path.length; k++) {
+      expect(path[k][0] - path[k - 1][0]).toBeGreaterThanOrEqual(0)
+      expect(path[k][1] - path[k - 1][1]).toBeGreaterThanOrEqual(0)
+    }
+  })
+
+  it("returns an infinite distance when either side is empty", () => {
+    expect(dynamicTimeWarp([], features([0, 1])).distance).toBe(Number.POSITIVE_INFINITY)
+  })
+})
+
+describe("distanceToScore", () => {
+  it("maps distances onto 0–100", () => {
+    expect(distanceToScore(0)).toBe(100)
+    expect(distanceToScore(0.5)).toBe(50)
+    expect(distanceToScore(2)).toBe(0)
+    expect(distanceToScore(Number.POSITIVE_INFINITY)).toBe(0)
+  })
+})
+
+describe("computeSimilarity", () => {
+  it("scores a clip against itself as a perfect match", () => {
+    const clip = glide(0.6, 180, 260)
+    expect(computeSimilarity(clip, clip, SAMPLE_RATE).score).toBe(100)
+  })
+
+  it("prefers a similar sound over noise", () => {
+    const reference = glide(0.6, 180, 260)
+    const imitation = glide(0.8, 170, 250)
+    const similar = computeSimilarity(reference, imitation, SAMPLE_RATE).score
+    const different = computeSimilarity(reference, noise(0.6), SAMPLE_RATE).score
+
+    expect(similar).toBeGreaterThan(different)
+  })
+
+  it("scores zero when one clip is silent", () => {
+    const result = computeSimilarity(glide(0.5, 200, 200), new Float32Array(SAMPLE_RATE / 2), SAMPLE_RATE)
+    expect(result.score).toBe(0)
+    expect(result.frames[1]).toBe(0)
+  })
+})
@@ -0,0 +1,249 @@
+import { hannWindow, nextPowerOfTwo, powerSpectrum } from "@/lib/audio/fft"
+
+export interface MfccOptions {
+  frameDuration?: number
+  hopDuration?: number
+  melBands?: number
+  coefficients?: number
+  minFrequency?: number
+  maxFrequency?: number
+  skipSilence?: boolean
+}
+
+export interface SimilarityResult {
+  score: number
+  distance: number
+  frames: [number, number]
+  path: Array<[number, number]>
+}
+
+const DEFAULT_MFCC_OPTIONS: Required<MfccOptions> = {
+  frameDuration: 0.025,
+  hopDuration: 0.01,
+  melBands: 26,
+  coefficients: 13,
+  minFrequency: 80,
+  maxFrequency: 7600,
+  skipSilence: true,
+}
+
+// Frames quieter than this (RMS) are treated as silence and dropped before alignment.
+export const SILENCE_RMS = 0.005
+// Caps the DTW cost matrix at MAX_FRAMES² cells so long rants don't exhaust memory.
+const MAX_FRAMES = 1500
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1)
+
+function melFilterbank(bands: number, fftSize: number, sampleRate: number, minHz: number, maxHz: number) {
+  const bins = fftSize / 2 + 1
+  const minMel = hzToMel(minHz)
+  const maxMel = hzToMel(Math.min(maxHz, sampleRate / 2))
+  const centers: number[] = []
+  for (let i = 0; i < bands + 2; i++) {
+    const hz = melToHz(minMel + ((maxMel - minMel) * i) / (bands + 1))
+    centers.push(Math.floor(((fftSize + 1) * hz) / sampleRate))
+  }
+
+  const filters: Float32Array[] = []
+  for (let b = 0; b < bands; b++) {
+    const filter = new Float32Array(bins)
+    const [left, center, right] = [centers[b], centers[b + 1], centers[b + 2]]
+    for (let k = left; k < center; k++) {
+      filter[k] = (k - left) / Math.max(1, center - left)
+    }
+    for (let k = center; k < right && k < bins; k++) {
+      filter[k] = (right - k) / Math.max(1, right - center)
+    }
+    filters.push(filter)
+  }
+  return filters
+}
+
+function dct(input: Float32Array, count: number): Float32Array {
+  const n = input.length
+  const output = new Float32Array(count)
+  for (let k = 0; k < count; k++) {
+    let sum = 0
+    for (let i = 0; i < n; i++) {
+      sum += input[i] * Math.cos((Math.PI * k * (i + 0.5)) / n)
+    }
+    output[k] = sum
+  }
+  return output
+}
+
+function frameRms(samples: Float32Array, start: number, size: number) {
+  let sum = 0
+  const end = Math.min(samples.length, start + size)
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i]
+  }
+  return Math.sqrt(sum / Math.max(1, end - start))
+}
+
+// Frame-by-frame RMS using the same framing as computeMfcc, so indices line up with unskipped MFCC frames.
+export function computeEnvelope(samples: Float32Array, sampleRate: number, options: MfccOptions = {}): Float32Array {
+  const opts = { ...DEFAULT_MFCC_OPTIONS, ...options }
+  const frameSize = Math.round(opts.frameDuration * sampleRate)
+  const hopSize = Math.max(1, Math.round(opts.hopDuration * sampleRate))
+  const count = samples.length >= frameSize ? Math.floor((samples.length - frameSize) / hopSize) + 1 : 0
+  const envelope = new Float32Array(count)
+  for (let i = 0; i < count; i++) {
+    envelope[i] = frameRms(samples, i * hopSize, frameSize)
+  }
+  return envelope
+}
+
+// Mel-frequency cepstral coefficients per frame. Silent frames are skipped unless skipSilence is false.
+export function computeMfcc(samples: Float32Array, sampleRate: number, options: MfccOptions = {}): Float32Array[] {
+  const opts = { ...DEFAULT_MFCC_OPTIONS, ...options }
+  const frameSize = Math.round(opts.frameDuration * sampleRate)
+  const hopSize = Math.max(1, Math.round(opts.hopDuration * sampleRate))
+  const fftSize = nextPowerOfTwo(frameSize)
+  const window = hannWindow(frameSize)
+  const paddedWindow = new Float32Array(fftSize)
+  paddedWindow.set(window)
+  const filters = melFilterbank(opts.melBands, fftSize, sampleRate, opts.minFrequency, opts.maxFrequency)
+
+  const frames: Float32Array[] = []
+  const frame = new Float32Array(fftSize)
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    if (opts.skipSilence && frameRms(samples, start, frameSize) < SILENCE_RMS) continue
+
+    frame.fill(0)
+    frame.set(samples.subarray(start, start + frameSize))
+    const power = powerSpectrum(frame, paddedWindow)
+
+    const energies = new Float32Array(opts.melBands)
+    for (let b = 0; b < filters.length; b++) {
+      let sum = 0
+      const filter = filters[b]
+      for (let k = 0; k < power.length; k++) {
+        sum += filter[k] * power[k]
+      }
+      energies[b] = Math.log(sum + 1e-10)
+    }
+    frames.push(dct(energies, opts.coefficients))
+  }
+
+  return normalizeCepstra(frames)
+}
+
+// Cepstral mean normalization removes channel/mic colouration so different phones compare fairly.
+function normalizeCepstra(frames: Float32Array[]): Float32Array[] {
+  if (frames.length === 0) return frames
+  const dims = frames[0].length
+  const mean = new Float32Array(dims)
+  for (const f of frames) {
+    for (let d = 0; d < dims; d++) mean[d] += f[d] / frames.length
+  }
+  return frames.map((f) => f.map((v, d) => v - mean[d]))
+}
+
+function decimate(frames: Float32Array[], maxFrames: number): Float32Array[] {
+  if (frames.length <= maxFrames) return frames
+  const stride = frames.length / maxFrames
+  return Array.from({ length: maxFrames }, (_, i) => frames[Math.floor(i * stride)])
+}
+
+export function cosineDistance(a: Float32Array, b: Float32Array) {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  // Coefficient 0 is overall loudness, which says nothing about what was said.
+  for (let d = 1; d < a.length; d++) {
+    dot += a[d] * b[d]
+    normA += a[d] * a[d]
+    normB += b[d] * b[d]
+  }
+  if (normA === 0 || normB === 0) return 1
+  return 1 - dot / Math.sqrt(normA * normB)
+}
+
+// Dynamic time warping over two feature sequences; returns the mean cost along the optimal path.
+export function dynamicTimeWarp(
+  a: Float32Array[],
+  b: Float32Array[],
+  distance: (x: Float32Array, y: Float32Array) => number = cosineDistance,
+): { distance: number; path: Array<[number, number]> } {
+  const n = a.length
+  const m = b.length
+  if (n === 0 || m === 0) {
+    return { distance: Number.POSITIVE_INFINITY, path: [] }
+  }
+
+  const cost = new Float32Array(n * m)
+  const at = (i: number, j: number) => cost[i * m + j]
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const d = distance(a[i], b[j])
+      if (i === 0 && j === 0) {
+        cost[0] = d
+      } else if (i === 0) {
+        cost[j] = d + at(0, j - 1)
+      } else if (j === 0) {
+        cost[i * m] = d + at(i - 1, 0)
+      } else {
+        cost[i * m + j] = d + Math.min(at(i - 1, j), at(i, j - 1), at(i - 1, j - 1))
+      }
+    }
+  }
+
+  const path: Array<[number, number]> = [[n - 1, m - 1]]
+  let i = n - 1
+  let j = m - 1
+  while (i > 0 || j > 0) {
+    if (i === 0) {
+      j--
+    } else if (j === 0) {
+      i--
+    } else {
+      const diag = at(i - 1, j - 1)
+      const up = at(i - 1, j)
+      const left = at(i, j - 1)
+      if (diag <= up && diag <= left) {
+        i--
+        j--
+      } else if (up < left) {
+        i--
+      } else {
+        j--
+      }
+    }
+    path.push([i, j])
+  }
+  path.reverse()
+
+  return { distance: at(n - 1, m - 1) / path.length, path }
+}
+
+// Mean cosine distance at or below this counts as a perfect match; at or above the ceiling scores zero.
+const PERFECT_DISTANCE = 0.15
+const ZERO_DISTANCE = 0.85
+
+export function distanceToScore(distance: number): number {
+  if (!Number.isFinite(distance)) return 0
+  const normalized = (distance - PERFECT_DISTANCE) / (ZERO_DISTANCE - PERFECT_DISTANCE)
+  return Math.round(100 * Math.min(1, Math.max(0, 1 - normalized)))
+}
+
+// Objective 0–100 similarity between two mono clips, based on MFCC features aligned with DTW.
+export function computeSimilarity(
+  reference: Float32Array,
+  candidate: Float32Array,
+  sampleRate: number,
+  options: MfccOptions = {},
+): SimilarityResult {
+  const a = decimate(computeMfcc(reference, sampleRate, options), MAX_FRAMES)
+  const b = decimate(computeMfcc(candidate, sampleRate, options), MAX_FRAMES)
+  const { distance, path } = dynamicTimeWarp(a, b)
+
+  return {
+    score: distanceToScore(distance),
+    distance,
+    frames: [a.length, b.length],
+    path,
+  }
+}
@@ -0,0 +1,52 @@
+import { hannWindow, powerSpectrum } from "@/lib/audio/fft"
+
+export interface SpectrogramOptions {
+  fftSize?: number
+  hopSize?: number
+}
+
+export interface Spectrogram {
+  frames: Float32Array[]
+  sampleRate: number
+  fftSize: number
+  hopSize: number
+  maxDb: number
+}
+
+// How the live input is drawn: frequency bars, or a scrolling log-frequency spectrogram
+export type VisualizerMode = "bars" | "spectrogram"
+
+export const MIN_DISPLAY_FREQUENCY = 60
+export const SPECTROGRAM_DYNAMIC_RANGE_DB = 80
+
+// Short-time power spectra in dB, one Float32Array of fftSize / 2 + 1 bins per frame.
+export function computeSpectrogram(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SpectrogramOptions = {},
+): Spectrogram {
+  const fftSize = options.fftSize ?? 1024
+  const hopSize = options.hopSize ?? fftSize / 4
+  const window = hannWindow(fftSize)
+
+  const frames: Float32Array[] = []
+  let maxDb = Number.NEGATIVE_INFINITY
+  for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+    const power = powerSpectrum(samples.subarray(start, start + fftSize), window)
+    const frame = new Float32Array(power.length)
+    for (let k = 0; k < power.length; k++) {
+      frame[k] = 10 * Math.log10(power[k] + 1e-12)
+      if (frame[k] > maxDb) maxDb = frame[k]
+    }
+    frames.push(frame)
+  }
+
+  return { frames, sampleRate, fftSize, hopSize, maxDb }
+}
+
+// Maps a 0..1 position on a log-frequency axis (0 = MIN_DISPLAY_FREQUENCY, 1 = Nyquist) to an FFT bin.
+export function logFrequencyBin(position: number, bins: number, sampleRate: number): number {
+  const nyquist = sampleRate / 2
+  const frequency = MIN_DISPLAY_FREQUENCY * (nyquist / MIN_DISPLAY_FREQUENCY) ** position
+  return Math.min(bins - 1, Math.round((frequency / nyquist) * (bins - 1)))
+}
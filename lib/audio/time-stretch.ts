@@ -0,0 +1,91 @@
+import { mixChannels } from "@/lib/audio/buffer"
+import { hannWindow } from "@/lib/audio/fft"
+
+export interface TimeStretchOptions {
+  frameDuration?: number
+  toleranceDuration?: number
+}
+
+const DEFAULT_TIME_STRETCH_OPTIONS: Required<TimeStretchOptions> = {
+  frameDuration: 0.04,
+  toleranceDuration: 0.01,
+}
+
+export const MIN_PLAYBACK_RATE = 0.5
+export const MAX_PLAYBACK_RATE = 1.5
+
+// Samples skipped between points when scoring candidate offsets; keeps the search cheap on phones.
+const CORRELATION_STRIDE = 4
+
+function bestOffset(signal: Float32Array, target: number, candidate: number, tolerance: number, overlap: number) {
+  let best = 0
+  let bestScore = Number.NEGATIVE_INFINITY
+  for (let delta = -tolerance; delta <= tolerance; delta += 2) {
+    const start = candidate + delta
+    if (start < 0 || start + overlap > signal.length) continue
+    let score = 0
+    for (let i = 0; i < overlap && target + i < signal.length; i += CORRELATION_STRIDE) {
+      score += signal[target + i] * signal[start + i]
+    }
+    if (score > bestScore) {
+      bestScore = score
+      best = delta
+    }
+  }
+  return best
+}
+
+// Waveform-similarity overlap-add (WSOLA): changes duration by 1/rate while preserving pitch.
+// rate > 1 plays faster, rate < 1 plays slower. All channels share the offsets picked on the mixdown.
+export function timeStretch(
+  channels: Float32Array[],
+  sampleRate: number,
+  rate: number,
+  options: TimeStretchOptions = {},
+): Float32Array[] {
+  if (rate === 1 || channels.length === 0) {
+    return channels.map((data) => data.slice())
+  }
+
+  const opts = { ...DEFAULT_TIME_STRETCH_OPTIONS, ...options }
+  const frameSize = Math.max(4, Math.round(opts.frameDuration * sampleRate) & ~1)
+  const synthesisHop = frameSize / 2
+  const analysisHop = synthesisHop * rate
+  const tolerance = Math.round(opts.toleranceDuration * sampleRate)
+  const window = hannWindow(frameSize)
+
+  const inputLength = channels[0].length
+  const outputLength = Math.max(1, Math.round(inputLength / rate))
+  const output = channels.map(() => new Float32Array(outputLength + frameSize))
+  const norm = new Float32Array(outputLength + frameSize)
+  const guide = mixChannels(channels)
+
+  let previous = 0
+  for (let frame = 0; frame * synthesisHop < outputLength; frame++) {
+    const nominal = Math.round(frame * analysisHop)
+    const position =
+      frame === 0
+        ? 0
+        : Math.max(0, nominal + bestOffset(guide, previous + synthesisHop, nominal, tolerance, synthesisHop))
+    const outStart = frame * synthesisHop
+
+    for (let i = 0; i < frameSize; i++) {
+      const src = position + i
+      if (src >= inputLength) break
+      const w = window[i]
+      for (let c = 0; c < channels.length; c++) {
+        output[c][outStart + i] += channels[c][src] * w
+      }
+      norm[outStart + i] += w
+    }
+    previous = position
+  }
+
+  return output.map((data) => {
+    const result = new Float32Array(outputLength)
+    for (let i = 0; i < outputLength; i++) {
+      result[i] = norm[i] > 1e-3 ? data[i] / norm[i] : 0
+    }
+    return result
+  })
+}
@@ -0,0 +1,96 @@
+import { amplitudeToDb } from "@/lib/audio/silence"
+
+export type VoiceActivityEvent = "speech-start" | "speech-end"
+
+export interface VoiceActivityOptions {
+  thresholdDb?: number
+  noiseMarginDb?: number
+  maxZeroCrossingRate?: number
+  minSpeechDuration?: number
+  trailingSilence?: number
+}
+
+export interface VoiceActivityDetector {
+  process: (samples: Float32Array, time: number) => VoiceActivityEvent | null
+  isSpeaking: () => boolean
+  // When the current run of speech frames began, in the same clock as the frame times; null after a quiet frame
+  speechStart: () => number | null
+  reset: () => void
+}
+
+const DEFAULT_VAD_OPTIONS: Required<VoiceActivityOptions> = {
+  thresholdDb: -45,
+  noiseMarginDb: 10,
+  maxZeroCrossingRate: 0.35,
+  minSpeechDuration: 0.1,
+  trailingSilence: 1.5,
+}
+
+// Frames this far above the threshold count as speech even with a hissy, high zero-crossing rate
+const LOUD_OVERRIDE_DB = 15
+// How quickly the noise floor estimate follows the room level during silence
+const NOISE_FLOOR_SMOOTHING = 0.05
+
+export function zeroCrossingRate(samples: Float32Array): number {
+  let crossings = 0
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1] < 0 !== samples[i] < 0) crossings++
+  }
+  return crossings / Math.max(1, samples.length - 1)
+}
+
+function rmsDb(samples: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i]
+  return amplitudeToDb(Math.sqrt(sum / Math.max(1, samples.length)))
+}
+
+// Energy + zero-crossing voice activity detector with an adaptive noise floor.
+// Feed it successive time-domain frames; it reports when speech starts and when it has ended.
+export function createVoiceActivityDetector(options: VoiceActivityOptions = {}): VoiceActivityDetector {
+  const opts = { ...DEFAULT_VAD_OPTIONS, ...options }
+  let speaking = false
+  let speechSince: number | null = null
+  let lastSpeechAt = 0
+  let noiseFloorDb: number | null = null
+
+  const reset = () => {
+    speaking = false
+    speechSince = null
+    lastSpeechAt = 0
+    noiseFloorDb = null
+  }
+
+  const process = (samples: Float32Array, time: number): VoiceActivityEvent | null => {
+    const level = rmsDb(samples)
+    const threshold = Math.max(opts.thresholdDb, (noiseFloorDb ?? -Infinity) + opts.noiseMarginDb)
+    const isSpeech =
+      level >= threshold &&
+      (zeroCrossingRate(samples) <= opts.maxZeroCrossingRate || level >= threshold + LOUD_OVERRIDE_DB)
+
+    if (!isSpeech && !speaking) {
+      noiseFloorDb = noiseFloorDb === null ? level : noiseFloorDb + (level - noiseFloorDb) * NOISE_FLOOR_SMOOTHING
+    }
+
+    if (isSpeech) {
+      lastSpeechAt = time
+      if (!speaking) {
+        speechSince ??= time
+        if (time - speechSince >= opts.minSpeechDuration) {
+          speaking = true
+          return "speech-start"
+        }
+      }
+      return null
+    }
+
+    speechSince = null
+    if (speaking && time - lastSpeechAt >= opts.trailingSilence) {
+      speaking = false
+      return "speech-end"
+    }
+    return null
+  }
+
+  return { process, isSpeaking: () => speaking, speechStart: () => speechSince, reset }
+}
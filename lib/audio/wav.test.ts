@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+import { decodeWav, encodeWav } from "@/lib/audio/wav"
+
+// One 16-bit quantization step on the negative side, the coarser of the two
+const STEP = 1 / 0x7fff
+
+function ramp(length: number, from: number, to: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => from + ((to - from) * i) / Math.max(1, length - 1))
+}
+
+function expectWithinStep(actual: Float32Array, expected: Float32Array) {
+  expect(actual.length).toBe(expected.length)
+  for (let i = 0; i < expected.length; i++) {
+    expect(Math.abs(actual[i] - expected[i])).toBeLessThanOrEqual(STEP)
+  }
+}
+
+function writeAscii(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+}
+
+describe("encodeWav / decodeWav", () => {
+  it("round-trips a mono clip within one 16-bit step", () => {
+    const samples = ramp(1000, -1, 1)
+    const decoded = decodeWav(encodeWav([samples], 44100))
+
+    expect(decoded.sampleRate).toBe(44100)
+    expect(decoded.channels).toHaveLength(1)
+    expectWithinStep(decoded.channels[0], samples)
+  })
+
+  it("round-trips a stereo clip and keeps the channels apart", () => {
+    const left = ramp(500, -0.5, 0.5)
+    const right = ramp(500, 0.9, -0.9)
+    const decoded = decodeWav(encodeWav([left, right], 48000))
+
+    expect(decoded.sampleRate).toBe(48000)
+    expect(decoded.channels).toHaveLength(2)
+    expectWithinStep(decoded.channels[0], left)
+    expectWithinStep(decoded.channels[1], right)
+  })
+
+  it("clamps samples outside ±1", () => {
+    const decoded = decodeWav(encodeWav([Float32Array.from([2, -3, 1.5, -1.0001])], 8000))
+
+    expect(Array.from(decoded.channels[0])).toEqual([1, -1, 1, -1])
+  })
+
+  it("writes a canonical PCM header", () => {
+    const frames = 10
+    const view = new DataView(encodeWav([new Float32Array(frames), new Float32Array(frames)], 22050))
+    const dataSize = frames * 2 * 2
+
+    expect(view.byteLength).toBe(44 + dataSize)
+    expect(view.getUint32(4, true)).toBe(36 + dataSize)
+    expect(view.getUint16(20, true)).toBe(1)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(22050)
+    expect(view.getUint32(28, true)).toBe(22050 * 2 * 2)
+    expect(view.getUint16(32, true)).toBe(4)
+    expect(view.getUint16(34, true)).toBe(16)
+    expect(view.getUint32(40, true)).toBe(dataSize)
+  })
+
+  it("rejects files that are not RIFF/WAVE", () => {
+    expect(() => decodeWav(new ArrayBuffer(44))).toThrow("Not a RIFF/WAVE file")
+  })
+
+  it("rejects non-PCM formats", () => {
+    const data = encodeWav([new Float32Array(4)], 8000)
+    // Format tag 3 is IEEE float
+    new DataView(data).setUint16(20, 3, true)
+
+    expect(() => decodeWav(data)).toThrow("Only PCM WAV files are supported")
+  })
+
+  it("rejects sample sizes other than 16 bits", () => {
+    const data = encodeWav([new Float32Array(4)], 8000)
+    new DataView(data).setUint16(34, 24, true)
+
+    expect(() => decodeWav(data)).toThrow("Only 16-bit PCM WAV files are supported")
+  })
+
+  it("rejects files without a data chunk", () => {
+    const data = encodeWav([new Float32Array(4)], 8000).slice(0, 36)
+    const view = new DataView(data)
+    view.setUint32(4, 28, true)
+
+    expect(() => decodeWav(data)).toThrow("WAV file has no data chunk")
+  })
+
+  it("skips unknown chunks before the data", () => {
+    const samples = ramp(8, -0.25, 0.25)
+    const encoded = new Uint8Array(encodeWav([samples], 8000))
+    const extra = 12
+    const padded = new Uint8Array(encoded.length + extra)
+    padded.set(encoded.subarray(0, 36))
+    const view = new DataView(padded.buffer)
+    writeAscii(view, 36, "LIST")
+    view.setUint32(40, extra - 8, true)
+    padded.set(encoded.subarray(36), 36 + extra)
+    view.setUint32(4, padded.length - 8, true)
+
+    expectWithinStep(decodeWav(padded.buffer).channels[0], samples)
+  })
+})
@@ -0,0 +1,102 @@
+import { getChannels } from "@/lib/audio/buffer"
+
+export interface DecodedWav {
+  channels: Float32Array[]
+  sampleRate: number
+}
+
+const WAV_HEADER_SIZE = 44
+const BYTES_PER_SAMPLE = 2
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+// Encodes planar float channels as an interleaved 16-bit PCM RIFF/WAVE file.
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const channelCount = channels.length
+  const length = channels[0]?.length ?? 0
+  const dataSize = length * channelCount * BYTES_PER_SAMPLE
+  const buffer = new ArrayBuffer(WAV_HEADER_SIZE + dataSize)
+  const view = new DataView(buffer)
+
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(view, 8, "WAVE")
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, channelCount, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * channelCount * BYTES_PER_SAMPLE, true)
+  view.setUint16(32, channelCount * BYTES_PER_SAMPLE, true)
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true)
+  writeString(view, 36, "data")
+  view.setUint32(40, dataSize, true)
+
+  let offset = WAV_HEADER_SIZE
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]))
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+      offset += BYTES_PER_SAMPLE
+    }
+  }
+
+  return buffer
+}
+
+// Decodes a 16-bit PCM WAV produced by encodeWav (or any canonical PCM WAV) back into float channels.
+export function decodeWav(data: ArrayBuffer): DecodedWav {
+  const view = new DataView(data)
+  const readString = (offset: number, size: number) =>
+    String.fromCharCode(...Array.from({ length: size }, (_, i) => view.getUint8(offset + i)))
+
+  if (readString(0, 4) !== "RIFF" || readString(8, 4) !== "WAVE") {
+    throw new Error("Not a RIFF/WAVE file")
+  }
+
+  let channelCount = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let offset = 12
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === "fmt ") {
+      if (view.getUint16(body, true) !== 1) {
+        throw new Error("Only PCM WAV files are supported")
+      }
+      channelCount = view.getUint16(body + 2, true)
+      sampleRate = view.getUint32(body + 4, true)
+      bitsPerSample = view.getUint16(body + 14, true)
+    } else if (id === "data") {
+      if (bitsPerSample !== 16 || channelCount === 0) {
+        throw new Error("Only 16-bit PCM WAV files are supported")
+      }
+      const frames = Math.floor(size / (channelCount * BYTES_PER_SAMPLE))
+      const channels = Array.from({ length: channelCount }, () => new Float32Array(frames))
+      let position = body
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < channelCount; c++) {
+          const sample = view.getInt16(position, true)
+          channels[c][i] = sample < 0 ? sample / 0x8000 : sample / 0x7fff
+          position += BYTES_PER_SAMPLE
+        }
+      }
+      return { channels, sampleRate }
+    }
+
+    offset = body + size + (size % 2)
+  }
+
+  throw new Error("WAV file has no data chunk")
+}
+
+export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
+  return new Blob([encodeWav(getChannels(buffer), buffer.sampleRate)], { type: "audio/wav" })
+}
@@ -0,0 +1,41 @@
+import type { ColormapName } from "@/lib/audio/colormap"
+import { CAPTURE_PRESETS, type CaptureBackend, type CaptureSettings } from "@/lib/audio/capture"
+import type { ReversalModeId } from "@/lib/audio/reversal"
+import type { VisualizerMode } from "@/lib/audio/spectrogram"
+
+export interface GameSettings {
+  trimSilence: boolean
+  silenceThresholdDb: number
+  normalizeLoudness: boolean
+  reversedPlaybackRate: number
+  reversalMode: ReversalModeId
+  visualizerMode: VisualizerMode
+  colormap: ColormapName
+  maxOriginalDuration: number
+  maxImitationDuration: number
+  preRoll: boolean
+  handsFree: boolean
+  trailingSilence: number
+  capture: CaptureSettings
+  captureBackend: CaptureBackend
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  trimSilence: true,
+  silenceThresholdDb: -45,
+  normalizeLoudness: true,
+  reversedPlaybackRate: 1,
+  reversalMode: "full",
+  visualizerMode: "bars",
+  colormap: "magma",
+  maxOriginalDuration: 10,
+  maxImitationDuration: 15,
+  preRoll: true,
+  handsFree: false,
+  trailingSilence: 1.5,
+  capture: CAPTURE_PRESETS.voice.settings,
+  captureBackend: "auto",
+}
+
+export const MIN_RECORDING_LIMIT = 3
+export const MAX_RECORDING_LIMIT = 30